@@ -1,8 +1,10 @@
-import { Controller, Get, Post, Body } from '@nestjs/common';
+import { Controller, Get, Post } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { MapBody, MapResponse } from '@ilhamtahir/nestjs-mapper';
 import { AppService } from './app.service';
 import { UserDto } from './dto/user.dto';
 import { UserEntity } from './entities/user.entity';
+import { UserMapper } from './mappers/user.mapper';
 
 /**
  * 应用控制器
@@ -15,34 +17,54 @@ export class AppController {
 
   /**
    * 获取单个用户
+   * 返回的实体由 @MapResponse 自动转换为 UserDto
    */
   @Get('user')
+  @MapResponse(UserMapper, 'toDto')
   @ApiOperation({ summary: 'Get single user information' })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved user information',
     type: UserDto,
   })
-  getUser(): UserDto {
+  getUser(): UserEntity {
     return this.appService.getUser();
   }
 
   /**
    * 获取用户列表
+   * 数组中的每个实体都会被转换
    */
   @Get('users')
+  @MapResponse(UserMapper, 'toDto')
   @ApiOperation({ summary: 'Get user list' })
   @ApiResponse({
     status: 200,
     description: 'Successfully retrieved user list',
     type: [UserDto],
   })
-  getUsers(): UserDto[] {
+  getUsers(): UserEntity[] {
     return this.appService.getUsers();
   }
 
+  /**
+   * 分页获取用户列表
+   * 只转换分页结构中的 items 字段
+   */
+  @Get('users/page')
+  @MapResponse(UserMapper, 'toDto', { field: 'items' })
+  @ApiOperation({ summary: 'Get a page of users' })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved a page of users',
+  })
+  getUserPage(): { items: UserEntity[]; total: number } {
+    return this.appService.getUserPage();
+  }
+
   /**
    * 创建用户
+   * 请求体由 @MapBody 在处理器执行前转换为 UserEntity
    */
   @Post('user')
   @ApiOperation({ summary: '创建新用户' })
@@ -51,8 +73,8 @@ export class AppController {
     description: '成功创建用户',
     type: UserEntity,
   })
-  createUser(@Body() userDto: UserDto): UserEntity {
-    return this.appService.createUser(userDto);
+  createUser(@MapBody(UserMapper, 'toEntity') userEntity: UserEntity): UserEntity {
+    return this.appService.createUser(userEntity);
   }
 
   /**
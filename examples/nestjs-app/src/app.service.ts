@@ -1,5 +1,4 @@
 import { Injectable } from '@nestjs/common';
-import { UserMapper } from './mappers/user.mapper';
 import { UserAbstractMapper } from './mappers/user-abstract.mapper';
 import { UserMixedMapper } from './mappers/user-mixed.mapper';
 import { UserEntity } from './entities/user.entity';
@@ -7,20 +6,19 @@ import { UserDto } from './dto/user.dto';
 
 /**
  * 应用服务
- * 演示如何注入和使用 UserMapper
+ * 演示如何注入和使用 Mapper（UserMapper 由控制器的 @MapResponse / @MapBody 使用）
  */
 @Injectable()
 export class AppService {
   constructor(
-    private readonly userMapper: UserMapper,
     private readonly userAbstractMapper: UserAbstractMapper,
     private readonly userMixedMapper: UserMixedMapper
   ) {}
 
   /**
-   * 获取单个用户
+   * 获取单个用户（由控制器的 @MapResponse 转换为 DTO）
    */
-  getUser(): UserDto {
+  getUser(): UserEntity {
     // 模拟从数据库获取的实体数据
     const userEntity = new UserEntity();
     userEntity.id = 1;
@@ -35,14 +33,13 @@ export class AppService {
     userEntity.createdAt = new Date('2023-01-01');
     userEntity.updatedAt = new Date();
 
-    // 使用 mapper 转换为 DTO
-    return this.userMapper.toDto(userEntity);
+    return userEntity;
   }
 
   /**
-   * 获取用户列表
+   * 获取用户列表（由控制器的 @MapResponse 转换为 DTO）
    */
-  getUsers(): UserDto[] {
+  getUsers(): UserEntity[] {
     // 模拟从数据库获取的实体数据列表
     const userEntities: UserEntity[] = [
       {
@@ -86,17 +83,21 @@ export class AppService {
       },
     ];
 
-    // 使用 mapper 批量转换为 DTO
-    return this.userMapper.toDtoList(userEntities);
+    return userEntities;
   }
 
   /**
-   * Create user (demonstrates reverse mapping)
+   * 分页获取用户列表
    */
-  createUser(userDto: UserDto): UserEntity {
-    // Use mapper to convert DTO to Entity
-    const userEntity = this.userMapper.toEntity(userDto);
+  getUserPage(): { items: UserEntity[]; total: number } {
+    const items = this.getUsers().slice(0, 2);
+    return { items, total: 3 };
+  }
 
+  /**
+   * Create user (the entity is mapped from the request body by @MapBody)
+   */
+  createUser(userEntity: UserEntity): UserEntity {
     // Simulate saving to database logic
     console.log('Saving user to database:', userEntity);
 
@@ -114,7 +115,7 @@ export class AppService {
   }
 
   /**
-   * Test Mixed Mapper (empty method body + custom methods)
+   * Test Mixed Mapper (@AutoMap() methods + custom methods)
    */
   getUserWithMixedMapper(): {
     autoTransform: UserDto;
@@ -124,7 +125,7 @@ export class AppService {
     const userEntity = this.createMockUserEntity();
 
     return {
-      // Empty method body, auto transform
+      // @AutoMap() method, auto transform
       autoTransform: this.userMixedMapper.toDto(userEntity),
       // Custom logic
       customLogic: this.userMixedMapper.toDtoWithCustomLogic(userEntity),
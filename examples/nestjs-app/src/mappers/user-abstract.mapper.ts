@@ -1,4 +1,4 @@
-import { Mapper, Mapping } from '@ilhamtahir/nestjs-mapper';
+import { AutoMap, InheritInverseConfiguration, Mapper, Mapping } from '@ilhamtahir/nestjs-mapper';
 import { UserEntity } from '../entities/user.entity';
 import { UserDto } from '../dto/user.dto';
 
@@ -7,38 +7,40 @@ import { UserDto } from '../dto/user.dto';
  * Demonstrates using abstract class and auto transform functionality
  *
  * Note: Due to TypeScript limitations, decorators cannot be used directly on abstract methods
- * We use empty method bodies to achieve the same effect
+ * We use placeholder bodies marked with @AutoMap() to achieve the same effect
  */
 @Mapper()
 export abstract class UserAbstractMapper {
   /**
-   * Empty method body: Convert UserEntity to UserDto
+   * Auto-implemented: Convert UserEntity to UserDto
    * System will automatically generate implementation, no need to write method body
    */
   @Mapping({ source: 'fullName', target: 'name' })
   @Mapping({ source: 'profile.bio', target: 'bio' })
   @Mapping({ source: 'profile.avatar', target: 'avatar' })
+  @AutoMap()
   toDto(_entity: UserEntity): UserDto {
-    // Empty method body, system will automatically call transform
+    // Marked with @AutoMap(), the body is replaced by transform
     return {} as UserDto;
   }
 
   /**
-   * Empty method body: Batch conversion
+   * Auto-implemented: Batch conversion
+   * Each element is mapped by the sibling toDto method
    */
-  toDtoList(entities: UserEntity[]): UserDto[] {
-    // Manually implement batch conversion
-    return entities.map(entity => this.toDto(entity));
+  @AutoMap()
+  toDtoList(_entities: UserEntity[]): UserDto[] {
+    // Marked with @AutoMap(), each element is mapped by the sibling toDto method
+    return [] as UserDto[];
   }
 
   /**
-   * Empty method body: Reverse mapping
+   * Auto-implemented: Reverse mapping
    */
-  @Mapping({ source: 'name', target: 'fullName' })
-  @Mapping({ source: 'bio', target: 'profile.bio' })
-  @Mapping({ source: 'avatar', target: 'profile.avatar' })
+  @InheritInverseConfiguration('toDto')
+  @AutoMap()
   toEntity(_dto: UserDto): UserEntity {
-    // Empty method body, system will automatically call transform
+    // Marked with @AutoMap(), the body is replaced by transform
     return {} as UserEntity;
   }
 }
@@ -1,21 +1,22 @@
-import { Mapper, Mapping } from '@ilhamtahir/nestjs-mapper';
+import { AutoMap, InheritInverseConfiguration, Mapper, Mapping } from '@ilhamtahir/nestjs-mapper';
 import { UserEntity } from '../entities/user.entity';
 import { UserDto } from '../dto/user.dto';
 
 /**
  * Mixed mode user mapper example
- * Demonstrates empty method body auto transform + custom method preservation
+ * Demonstrates @AutoMap() auto transform + custom method preservation
  */
 @Mapper()
 export class UserMixedMapper {
   /**
-   * Empty method body: will automatically execute transform
+   * Auto-implemented: will automatically execute transform
    */
   @Mapping({ source: 'fullName', target: 'name' })
   @Mapping({ source: 'profile.bio', target: 'bio' })
   @Mapping({ source: 'profile.avatar', target: 'avatar' })
+  @AutoMap()
   toDto(_entity: UserEntity): UserDto {
-    // Empty method body, system will automatically call transform
+    // Marked with @AutoMap(), the body is replaced by transform
     return {} as UserDto;
   }
 
@@ -36,12 +37,12 @@ export class UserMixedMapper {
   }
 
   /**
-   * Empty method body: batch conversion will also be handled automatically
+   * Auto-implemented: batch conversion will also be handled automatically
    */
-  toDtoList(entities: UserEntity[]): UserDto[] {
-    // Empty method body, but since parameter is array, needs special handling
-    // Here we manually implement batch conversion
-    return entities.map(entity => this.toDto(entity));
+  @AutoMap()
+  toDtoList(_entities: UserEntity[]): UserDto[] {
+    // Marked with @AutoMap(), each element is mapped by the sibling toDto method
+    return [] as UserDto[];
   }
 
   /**
@@ -60,13 +61,12 @@ export class UserMixedMapper {
   }
 
   /**
-   * Empty method body: reverse mapping
+   * Auto-implemented: reverse mapping
    */
-  @Mapping({ source: 'name', target: 'fullName' })
-  @Mapping({ source: 'bio', target: 'profile.bio' })
-  @Mapping({ source: 'avatar', target: 'profile.avatar' })
+  @InheritInverseConfiguration('toDto')
+  @AutoMap()
   toEntity(_dto: UserDto): UserEntity {
-    // Empty method body, will auto transform
+    // Marked with @AutoMap(), the body is replaced by transform
     return {} as UserEntity;
   }
 }
@@ -1,4 +1,12 @@
-import { Mapper, Mapping, transform } from '@ilhamtahir/nestjs-mapper';
+import {
+  AfterMapping,
+  InheritInverseConfiguration,
+  IterableMapping,
+  Mapper,
+  Mapping,
+  transform,
+  transformIterable,
+} from '@ilhamtahir/nestjs-mapper';
 import { UserEntity } from '../entities/user.entity';
 import { UserDto } from '../dto/user.dto';
 
@@ -22,22 +30,27 @@ export class UserMapper {
 
   /**
    * 批量转换
+   * 使用 @IterableMapping 指定元素映射方法
    */
+  @IterableMapping({ elementType: UserDto, using: 'toDto' })
   toDtoList(entities: UserEntity[]): UserDto[] {
-    return entities.map(entity => this.toDto(entity));
+    return transformIterable(this, 'toDtoList', entities);
   }
 
   /**
    * 将 UserDto 转换回 UserEntity（演示反向映射）
    */
-  @Mapping({ source: 'name', target: 'fullName' })
-  @Mapping({ source: 'bio', target: 'profile.bio' })
-  @Mapping({ source: 'avatar', target: 'profile.avatar' })
+  @InheritInverseConfiguration('toDto')
   toEntity(dto: UserDto): UserEntity {
-    const entity = transform(this, 'toEntity', dto, UserEntity);
-    // 设置一些默认值
+    return transform(this, 'toEntity', dto, UserEntity);
+  }
+
+  /**
+   * 映射到 UserEntity 后设置时间戳（演示 @AfterMapping 生命周期钩子）
+   */
+  @AfterMapping({ targetType: UserEntity })
+  setTimestamps(_dto: UserDto, entity: UserEntity): void {
     entity.createdAt = new Date();
     entity.updatedAt = new Date();
-    return entity;
   }
 }
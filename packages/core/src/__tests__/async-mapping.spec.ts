@@ -0,0 +1,262 @@
+import {
+  AfterMapping,
+  AutoMap,
+  BeanMapping,
+  BeforeMapping,
+  IterableMapping,
+  Mapper,
+  Mapping,
+  MappingError,
+  configureMapper,
+  createMapperProxy,
+  resetMapperConfig,
+  transform,
+  transformAsync,
+} from '../index';
+
+class ProfileEntity {
+  avatarKey = '';
+}
+
+class ProfileDto {
+  avatarUrl = '';
+}
+
+class OrderEntity {
+  total = 0;
+}
+
+class OrderDto {
+  total = '';
+}
+
+class UserEntity {
+  id = 0;
+  ownerId = 0;
+  profile = new ProfileEntity();
+  orders: OrderEntity[] = [];
+}
+
+class UserDto {
+  id = 0;
+  ownerName = '';
+  profile = new ProfileDto();
+  orders: OrderDto[] = [];
+  loadedAt?: Date;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const signUrl = async (key: string) => {
+  await delay(1);
+  return `https://cdn.example.com/${key}?signature=abc`;
+};
+
+@Mapper()
+class ProfileMapper {
+  @Mapping({ source: 'avatarKey', target: 'avatarUrl', transform: signUrl })
+  @BeanMapping({ resultType: ProfileDto })
+  @AutoMap()
+  toDto(_entity: ProfileEntity): Promise<ProfileDto> {
+    return {} as Promise<ProfileDto>;
+  }
+}
+
+@Mapper()
+class OrderMapper {
+  @Mapping({
+    source: 'total',
+    target: 'total',
+    transform: async (total: number) => total.toFixed(2),
+  })
+  @BeanMapping({ resultType: OrderDto })
+  @AutoMap()
+  toDto(_entity: OrderEntity): Promise<OrderDto> {
+    return {} as Promise<OrderDto>;
+  }
+}
+
+@Mapper({ uses: [ProfileMapper, OrderMapper] })
+class UserMapper {
+  inFlight = 0;
+  maxInFlight = 0;
+
+  @Mapping({
+    source: 'ownerId',
+    target: 'ownerName',
+    transform: async (id: number) => {
+      await delay(1);
+      return `user-${id}`;
+    },
+  })
+  @BeanMapping({ resultType: UserDto })
+  @AutoMap()
+  toDto(_entity: UserEntity): Promise<UserDto> {
+    return {} as Promise<UserDto>;
+  }
+
+  @IterableMapping({ using: 'toTrackedDto', concurrency: 2 })
+  @AutoMap()
+  toDtoList(_entities: UserEntity[]): Promise<UserDto[]> {
+    return [] as unknown as Promise<UserDto[]>;
+  }
+
+  async toTrackedDto(entity: UserEntity): Promise<UserDto> {
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await delay(2);
+    this.inFlight--;
+    return transformAsync(this, 'toDto', entity, UserDto);
+  }
+
+  @AfterMapping({ targetType: UserDto })
+  async markLoaded(_entity: UserEntity, dto: UserDto): Promise<void> {
+    await delay(1);
+    dto.loadedAt = new Date(0);
+  }
+
+  @Mapping({ source: 'id', target: 'id' })
+  @AutoMap()
+  toUntyped(_entity: UserEntity): Promise<UserDto> {
+    return {} as Promise<UserDto>;
+  }
+}
+
+describe('Async mapping', () => {
+  const createEntity = (id: number) =>
+    Object.assign(new UserEntity(), {
+      id,
+      ownerId: id * 10,
+      profile: Object.assign(new ProfileEntity(), { avatarKey: `avatar-${id}.png` }),
+      orders: [Object.assign(new OrderEntity(), { total: id })],
+    });
+
+  afterEach(() => {
+    resetMapperConfig();
+  });
+
+  it('should await async converters, nested mapper methods and hooks in transformAsync()', async () => {
+    const dto = await transformAsync(
+      createMapperProxy(UserMapper),
+      'toDto',
+      createEntity(1),
+      UserDto
+    );
+
+    expect(dto).toBeInstanceOf(UserDto);
+    expect(dto.ownerName).toBe('user-10');
+    expect(dto.profile).toBeInstanceOf(ProfileDto);
+    expect(dto.profile.avatarUrl).toBe('https://cdn.example.com/avatar-1.png?signature=abc');
+    expect(dto.loadedAt).toEqual(new Date(0));
+  });
+
+  it('should await nested collections mapped by async methods', async () => {
+    const dto = await createMapperProxy(UserMapper).toDto(createEntity(4));
+
+    expect(dto.orders).toHaveLength(1);
+    expect(dto.orders[0]).toBeInstanceOf(OrderDto);
+    expect(dto.orders[0].total).toBe('4.00');
+  });
+
+  it('should auto-implement methods returning a Promise of the @BeanMapping resultType', async () => {
+    const mapper = createMapperProxy(UserMapper);
+    const result = mapper.toDto(createEntity(2));
+
+    expect(result).toBeInstanceOf(Promise);
+    const dto = await result;
+    expect(dto.id).toBe(2);
+    expect(dto.profile.avatarUrl).toBe('https://cdn.example.com/avatar-2.png?signature=abc');
+  });
+
+  it('should map collections with the @IterableMapping concurrency limit', async () => {
+    const mapper = createMapperProxy(UserMapper);
+    const dtos = await mapper.toDtoList([1, 2, 3, 4, 5].map(createEntity));
+
+    expect(dtos.map(dto => dto.ownerName)).toEqual([
+      'user-10',
+      'user-20',
+      'user-30',
+      'user-40',
+      'user-50',
+    ]);
+    expect(mapper.maxInFlight).toBe(2);
+  });
+
+  it('should fall back to the global concurrency', async () => {
+    @Mapper()
+    class GlobalLimitMapper extends UserMapper {
+      @IterableMapping({ using: 'toTrackedDto' })
+      @AutoMap()
+      toDtoList(_entities: UserEntity[]): Promise<UserDto[]> {
+        return [] as unknown as Promise<UserDto[]>;
+      }
+    }
+
+    configureMapper({ concurrency: 1 });
+    const mapper = createMapperProxy(GlobalLimitMapper);
+    await mapper.toDtoList([1, 2, 3].map(createEntity));
+
+    expect(mapper.maxInFlight).toBe(1);
+  });
+
+  it('should reject async methods without a resultType', async () => {
+    await expect(createMapperProxy(UserMapper).toUntyped(createEntity(3))).rejects.toThrow(
+      'Auto transform failed (method: toUntyped): Unable to resolve the result type of async method toUntyped. Declare it with @BeanMapping({ resultType }).'
+    );
+  });
+
+  it('should reject async hooks in synchronous mappings', async () => {
+    @Mapper()
+    class HookMapper {
+      loaded = false;
+
+      toDto(entity: ProfileEntity): ProfileDto {
+        return transform(this, 'toDto', entity, ProfileDto);
+      }
+
+      @BeforeMapping()
+      async load(): Promise<void> {
+        await delay(1);
+        this.loaded = true;
+      }
+    }
+
+    const hookMapper = new HookMapper();
+
+    expect(() => hookMapper.toDto(new ProfileEntity())).toThrow(
+      new MappingError(
+        'A @BeforeMapping() method of HookMapper.toDto returned a promise, which a synchronous mapping cannot await. Use transformAsync() or declare the mapper method as returning a Promise.'
+      )
+    );
+    await expect(
+      transformAsync(hookMapper, 'toDto', new ProfileEntity(), ProfileDto)
+    ).resolves.toBeInstanceOf(ProfileDto);
+    expect(hookMapper.loaded).toBe(true);
+  });
+
+  it('should reject async converters and nested mapper methods in synchronous mappings', () => {
+    @Mapper()
+    class SyncProfileMapper {
+      @Mapping({ source: 'avatarKey', target: 'avatarUrl', transform: signUrl })
+      toDto(entity: ProfileEntity): ProfileDto {
+        return transform(this, 'toDto', entity, ProfileDto);
+      }
+    }
+
+    @Mapper({ uses: [ProfileMapper] })
+    class SyncUserMapper {
+      toDto(entity: UserEntity): UserDto {
+        return transform(this, 'toDto', entity, UserDto);
+      }
+    }
+
+    expect(() => new SyncProfileMapper().toDto(new ProfileEntity())).toThrow(
+      new MappingError(
+        'The converter of "avatarUrl" in SyncProfileMapper.toDto returned a promise, which a synchronous mapping cannot await. Use transformAsync() or declare the mapper method as returning a Promise.'
+      )
+    );
+    expect(() => new SyncUserMapper().toDto(new UserEntity())).toThrow(
+      'The nested mapper method of "profile" in SyncUserMapper.toDto returned a promise'
+    );
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  AfterMapping,
+  AutoMap,
+  Mapper,
+  Mapping,
+  configureMapper,
+  createMapperProxy,
+  resetMapperConfig,
+} from '../index';
+
+class UserEntity {
+  id = 0;
+  fullName = '';
+}
+
+class UserDto {
+  id = 0;
+  name = '';
+}
+
+@Mapper()
+class UserMapper {
+  @Mapping({ source: 'fullName', target: 'name' })
+  @AutoMap()
+  toDto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+
+  @Mapping({ source: 'fullName', target: 'name' })
+  toPlaceholder(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+}
+
+@Mapper({ autoImplement: true })
+class AutoUserMapper {
+  @Mapping({ source: 'fullName', target: 'name' })
+  toDto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+
+  toLabel(entity: UserEntity): string {
+    return `#${entity.id} ${entity.fullName}`;
+  }
+
+  @AfterMapping()
+  markMapped(_entity: UserEntity, dto: UserDto): void {
+    dto.name += '!';
+  }
+}
+
+@Mapper({ autoImplement: true })
+class CustomUserMapper extends AutoUserMapper {
+  toDto(entity: UserEntity): UserDto {
+    return Object.assign(new UserDto(), { id: entity.id, name: 'custom' });
+  }
+}
+
+@Mapper({ detectEmptyMethods: true })
+class LegacyUserMapper {
+  @Mapping({ source: 'fullName', target: 'name' })
+  toDto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+
+  @Mapping({ source: 'fullName', target: 'name' })
+  toDefaultDto(entity: UserEntity): UserDto {
+    const defaults = {};
+    return Object.assign(new UserDto(), defaults, { id: entity.id });
+  }
+}
+
+describe('Auto-implemented methods', () => {
+  const entity = Object.assign(new UserEntity(), { id: 1, fullName: 'Jane Doe' });
+
+  afterEach(() => {
+    resetMapperConfig();
+  });
+
+  it('should auto-implement methods marked with @AutoMap()', () => {
+    const dto = createMapperProxy(UserMapper).toDto(entity);
+
+    expect(dto).toBeInstanceOf(UserDto);
+    expect(dto).toEqual(Object.assign(new UserDto(), { id: 1, name: 'Jane Doe' }));
+  });
+
+  it('should call the body of unmarked methods, whatever their source text', () => {
+    expect(createMapperProxy(UserMapper).toPlaceholder(entity)).toEqual({});
+  });
+
+  it('should not depend on the source text of marked methods', () => {
+    const source = UserMapper.prototype.toDto.toString;
+    UserMapper.prototype.toDto.toString = () => 'function(n){return i(this,"toDto",n,u)}';
+    try {
+      expect(createMapperProxy(UserMapper).toDto(entity).name).toBe('Jane Doe');
+    } finally {
+      UserMapper.prototype.toDto.toString = source;
+    }
+  });
+
+  it('should decide once per method when the proxy is created', () => {
+    const mapper = createMapperProxy(UserMapper);
+
+    expect(mapper.toDto).toBe(mapper.toDto);
+    expect(mapper.toPlaceholder).toBe(UserMapper.prototype.toPlaceholder);
+  });
+
+  it('should warn once about empty methods that are not auto-implemented', () => {
+    const logger = { warn: jest.fn() };
+    configureMapper({ logger });
+
+    @Mapper()
+    class DraftMapper {
+      @Mapping({ source: 'fullName', target: 'name' })
+      toDto(_entity: UserEntity): UserDto {
+        return {} as UserDto;
+      }
+
+      toSummaryDto(_entity: UserEntity): UserDto {
+        return {} as UserDto;
+      }
+
+      @Mapping({ source: 'fullName', target: 'name' })
+      toCustomDto(entity: UserEntity): UserDto {
+        return Object.assign(new UserDto(), { id: entity.id });
+      }
+    }
+
+    createMapperProxy(DraftMapper);
+    createMapperProxy(DraftMapper);
+
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'DraftMapper.toDto has an empty body but is not auto-implemented. Mark it with @AutoMap(), use @Mapper({ autoImplement: true }) or implement it.'
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      'DraftMapper.toSummaryDto has an empty body but is not auto-implemented. Mark it with @AutoMap(), use @Mapper({ autoImplement: true }) or implement it.'
+    );
+  });
+
+  it('should auto-implement methods with mappings of autoImplement mappers', () => {
+    const mapper = createMapperProxy(AutoUserMapper);
+
+    expect(mapper.toDto(entity).name).toBe('Jane Doe!');
+    expect(mapper.toLabel(entity)).toBe('#1 Jane Doe');
+  });
+
+  it('should keep the body of an override without mapping decorators', () => {
+    expect(createMapperProxy(CustomUserMapper).toDto(entity).name).toBe('custom');
+  });
+
+  it('should detect empty methods with the compatibility flag', () => {
+    const mapper = createMapperProxy(LegacyUserMapper);
+
+    expect(mapper.toDto(entity).name).toBe('Jane Doe');
+    // An empty object literal elsewhere in the body does not make the method empty
+    expect(mapper.toDefaultDto(entity).name).toBe('');
+  });
+
+  it('should apply the global compatibility flag', () => {
+    configureMapper({ detectEmptyMethods: true });
+
+    expect(createMapperProxy(UserMapper).toPlaceholder(entity).name).toBe('Jane Doe');
+  });
+});
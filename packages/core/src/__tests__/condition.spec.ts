@@ -0,0 +1,97 @@
+import { AutoMap, Condition, Mapper, Mapping, createMapperProxy, transform } from '../index';
+
+class UserEntity {
+  id = 0;
+  name = '';
+  email = '';
+  nickname = '';
+  isActive = false;
+  tags: string[] = [];
+}
+
+class UserDto {
+  id = 0;
+  name = 'anonymous';
+  email = 'hidden';
+  nickname = 'none';
+  tags: string[] = ['default'];
+}
+
+@Mapper()
+class UserMapper {
+  @Mapping({
+    source: 'email',
+    target: 'email',
+    condition: (user: UserEntity) => user.isActive,
+  })
+  toDto(entity: UserEntity): UserDto {
+    return transform(this, 'toDto', entity, UserDto);
+  }
+}
+
+@Mapper()
+class NonEmptyMapper {
+  @Mapping({ source: 'name', target: 'nickname' })
+  @AutoMap()
+  toDto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+
+  @Condition()
+  isNotEmpty(value: string): boolean {
+    return value.trim() !== '';
+  }
+
+  @Condition()
+  hasElements(value: Array<unknown>): boolean {
+    return value.length > 0;
+  }
+}
+
+describe('Conditional mapping', () => {
+  const entity = Object.assign(new UserEntity(), {
+    id: 1,
+    name: 'Jane',
+    email: 'jane@example.com',
+    isActive: false,
+  });
+
+  it('should only write explicit fields whose condition holds', () => {
+    expect(new UserMapper().toDto(entity).email).toBe('hidden');
+    expect(new UserMapper().toDto({ ...entity, isActive: true }).email).toBe('jane@example.com');
+  });
+
+  it('should pass the source object and the source value to the condition', () => {
+    const condition = jest.fn(() => true);
+
+    @Mapper()
+    class SpyMapper {
+      @Mapping({ source: 'name', target: 'name', condition })
+      toDto(user: UserEntity): UserDto {
+        return transform(this, 'toDto', user, UserDto);
+      }
+    }
+
+    new SpyMapper().toDto(entity);
+    expect(condition).toHaveBeenCalledWith(entity, 'Jane');
+  });
+
+  it('should apply @Condition() methods to every property of their parameter type', () => {
+    const mapper = createMapperProxy(NonEmptyMapper);
+    const dto = mapper.toDto(Object.assign(new UserEntity(), { id: 2, name: ' ', email: '' }));
+
+    expect(dto.id).toBe(2);
+    expect(dto.nickname).toBe('none');
+    expect(dto.email).toBe('hidden');
+    expect(dto.tags).toEqual(['default']);
+  });
+
+  it('should write values accepted by @Condition() methods', () => {
+    const dto = createMapperProxy(NonEmptyMapper).toDto(
+      Object.assign(new UserEntity(), { name: 'Jane', tags: ['a'] })
+    );
+
+    expect(dto.nickname).toBe('Jane');
+    expect(dto.tags).toEqual(['a']);
+  });
+});
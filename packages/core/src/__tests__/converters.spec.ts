@@ -0,0 +1,162 @@
+import {
+  AutoMap,
+  Mapper,
+  Mapping,
+  MappingError,
+  configureMapper,
+  createMapperProxy,
+  resetMapperConfig,
+  transform,
+} from '../index';
+
+class AccountEntity {
+  id: number;
+  username: string;
+  email: string;
+  balanceInCents: number;
+
+  constructor(data: Partial<AccountEntity> = {}) {
+    this.id = data.id || 0;
+    this.username = data.username || '';
+    this.email = data.email || '';
+    this.balanceInCents = data.balanceInCents || 0;
+  }
+}
+
+class AccountDto {
+  id: number;
+  username: string;
+  email: string;
+  balance: number;
+
+  constructor() {
+    this.id = 0;
+    this.username = '';
+    this.email = '';
+    this.balance = 0;
+  }
+}
+
+const toUpper = (value: string) => value.toUpperCase();
+
+@Mapper({ converters: { toUpper } })
+class AccountMapper {
+  @Mapping({ source: 'username', target: 'username', transform: 'toUpper' })
+  @Mapping({ source: 'email', target: 'email', transform: (value: string) => value.trim() })
+  @Mapping({
+    source: 'balanceInCents',
+    target: 'balance',
+    transform: (value: number, source: AccountEntity) => (source.id ? value / 100 : 0),
+  })
+  toDto(entity: AccountEntity): AccountDto {
+    return transform(this, 'toDto', entity, AccountDto);
+  }
+
+  @Mapping({ source: 'username', target: 'username', transform: 'toUpper' })
+  @Mapping({ source: 'email', target: 'email', transform: (value: string) => value.toLowerCase() })
+  @AutoMap()
+  toDtoAuto(_entity: AccountEntity): AccountDto {
+    return {} as AccountDto;
+  }
+}
+
+describe('Mapping converters', () => {
+  const entity = new AccountEntity({
+    id: 1,
+    username: 'john',
+    email: '  John@Example.com ',
+    balanceInCents: 12345,
+  });
+
+  it('should apply transform functions and named converters in transform()', () => {
+    const dto = new AccountMapper().toDto(entity);
+
+    expect(dto.username).toBe('JOHN');
+    expect(dto.email).toBe('John@Example.com');
+    expect(dto.balance).toBe(123.45);
+  });
+
+  it('should apply converters on the createMapperProxy auto-transform path', () => {
+    const dto = createMapperProxy(AccountMapper).toDtoAuto(entity);
+
+    expect(dto).toBeInstanceOf(AccountDto);
+    expect(dto.username).toBe('JOHN');
+    expect(dto.email).toBe('  john@example.com ');
+  });
+
+  it('should not call converters for null or undefined source values', () => {
+    const nullEntity = new AccountEntity();
+    nullEntity.username = null as any;
+
+    const dto = new AccountMapper().toDto(nullEntity);
+
+    expect(dto.username).toBeNull();
+  });
+
+  it('should resolve named converters from the global config after the mapper ones', () => {
+    @Mapper({ converters: { toUpper } })
+    class GlobalConverterMapper {
+      @Mapping({ source: 'username', target: 'username', transform: 'toUpper' })
+      @Mapping({ source: 'email', target: 'email', transform: 'mask' })
+      toDto(entity: AccountEntity): AccountDto {
+        return transform(this, 'toDto', entity, AccountDto);
+      }
+    }
+
+    configureMapper({ converters: { mask: () => '***', toUpper: () => 'global' } });
+    try {
+      const dto = new GlobalConverterMapper().toDto(entity);
+
+      expect(dto.username).toBe('JOHN');
+      expect(dto.email).toBe('***');
+    } finally {
+      resetMapperConfig();
+    }
+  });
+
+  it('should reject references to unknown converters', () => {
+    @Mapper()
+    class BrokenMapper {
+      @Mapping({ source: 'username', target: 'username', transform: 'missing' })
+      toDto(entity: AccountEntity): AccountDto {
+        return transform(this, 'toDto', entity, AccountDto);
+      }
+    }
+
+    expect(() => new BrokenMapper().toDto(entity)).toThrow(
+      'Unknown converter "missing" referenced by BrokenMapper.toDto (target: username)'
+    );
+  });
+
+  it('should turn converter failures into a MappingError naming the field', () => {
+    const failure = new RangeError('Invalid e-mail address');
+
+    @Mapper()
+    class FailingMapper {
+      @Mapping({
+        source: 'email',
+        target: 'email',
+        transform: () => {
+          throw failure;
+        },
+      })
+      toDto(entity: AccountEntity): AccountDto {
+        return transform(this, 'toDto', entity, AccountDto);
+      }
+    }
+
+    let error: unknown;
+    try {
+      new FailingMapper().toDto(entity);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(MappingError);
+    expect((error as MappingError).message).toBe(
+      'Converter of "email" failed: Invalid e-mail address'
+    );
+    expect((error as MappingError).fields).toEqual(['email']);
+    expect((error as MappingError).cause).toBe(failure);
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  AutoMap,
+  BeanMapping,
+  Mapper,
+  Mapping,
+  configureMapper,
+  createMapperProxy,
+  resetMapperConfig,
+  transform,
+} from '../index';
+
+class Money {
+  constructor(
+    public amount = 0,
+    public currency = 'CNY'
+  ) {}
+
+  format(): string {
+    return `${this.amount} ${this.currency}`;
+  }
+}
+
+// Subclass of a typed array, like Node.js Buffer
+class Bytes extends Uint8Array {
+  toText(): string {
+    return String.fromCharCode(...this);
+  }
+}
+
+class ProfileEntity {
+  bio = '';
+  links: string[] = [];
+}
+
+class UserEntity {
+  id = 0;
+  tags: string[] = [];
+  profile = new ProfileEntity();
+  createdAt = new Date(0);
+  balance = new Money();
+  settings = new Map<string, { enabled: boolean }>();
+  roles = new Set<string>();
+  avatar = new Bytes(0);
+  checksum = new Uint8Array(0);
+}
+
+class UserDto {
+  id = 0;
+  tags: string[] = [];
+  profile = new ProfileEntity();
+  createdAt = new Date(0);
+  balance = new Money();
+  settings = new Map<string, { enabled: boolean }>();
+  roles = new Set<string>();
+  avatar = new Bytes(0);
+  checksum = new Uint8Array(0);
+}
+
+class ProfileSummaryDto {
+  profile = new ProfileEntity();
+  links: string[] = [];
+}
+
+@Mapper({ copyStrategy: 'deep' })
+class DeepMapper {
+  toDto(entity: UserEntity): UserDto {
+    return transform(this, 'toDto', entity, UserDto);
+  }
+
+  @Mapping({ source: 'profile', target: 'profile', copyStrategy: 'reference' })
+  @Mapping({ source: 'profile.links', target: 'links' })
+  @AutoMap()
+  toSummary(_entity: UserEntity): ProfileSummaryDto {
+    return {} as ProfileSummaryDto;
+  }
+}
+
+@Mapper()
+class ReferenceMapper {
+  toDto(entity: UserEntity): UserDto {
+    return transform(this, 'toDto', entity, UserDto);
+  }
+
+  @BeanMapping({ copyStrategy: 'shallow' })
+  @AutoMap()
+  toShallowDto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+}
+
+describe('Copy strategy', () => {
+  const createEntity = () =>
+    Object.assign(new UserEntity(), {
+      id: 1,
+      tags: ['admin'],
+      profile: Object.assign(new ProfileEntity(), { bio: 'Hello', links: ['https://a.dev'] }),
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      balance: new Money(42),
+      settings: new Map([['mail', { enabled: true }]]),
+      roles: new Set(['editor']),
+      avatar: Bytes.from([112, 110, 103]),
+      checksum: new Uint8Array([1, 2, 3]),
+    });
+
+  afterEach(() => {
+    resetMapperConfig();
+  });
+
+  it('should write source objects by reference by default', () => {
+    const entity = createEntity();
+    const dto = new ReferenceMapper().toDto(entity);
+
+    expect(dto.tags).toBe(entity.tags);
+    expect(dto.profile).toBe(entity.profile);
+  });
+
+  it('should deep copy every value while preserving prototypes', () => {
+    const entity = createEntity();
+    const dto = new DeepMapper().toDto(entity);
+
+    expect(dto.tags).not.toBe(entity.tags);
+    expect(dto.tags).toEqual(['admin']);
+    expect(dto.profile).not.toBe(entity.profile);
+    expect(dto.profile).toBeInstanceOf(ProfileEntity);
+    expect(dto.profile.links).not.toBe(entity.profile.links);
+    expect(dto.createdAt).not.toBe(entity.createdAt);
+    expect(dto.createdAt.getTime()).toBe(entity.createdAt.getTime());
+    expect(dto.balance).toBeInstanceOf(Money);
+    expect(dto.balance.format()).toBe('42 CNY');
+    expect(dto.settings.get('mail')).not.toBe(entity.settings.get('mail'));
+    expect(dto.settings.get('mail')).toEqual({ enabled: true });
+    expect(dto.roles).not.toBe(entity.roles);
+    expect([...dto.roles]).toEqual(['editor']);
+    expect(dto.avatar).toBeInstanceOf(Bytes);
+    expect(dto.avatar.toText()).toBe('png');
+    expect(dto.checksum).toBeInstanceOf(Uint8Array);
+    expect(dto.checksum).not.toBe(entity.checksum);
+
+    dto.tags.push('guest');
+    dto.profile.links.push('https://b.dev');
+    dto.avatar[0] = 0;
+    expect(entity.tags).toEqual(['admin']);
+    expect(entity.profile.links).toEqual(['https://a.dev']);
+    expect(entity.avatar.toText()).toBe('png');
+  });
+
+  it('should copy an object referenced twice within a value once, including cycles', () => {
+    const entity = createEntity();
+    Object.assign(entity.profile, { backup: entity.profile.links, self: entity.profile });
+    const profile = new DeepMapper().toDto(entity).profile as any;
+
+    expect(profile.backup).toBe(profile.links);
+    expect(profile.links).not.toBe(entity.profile.links);
+    expect(profile.self).toBe(profile);
+  });
+
+  it('should only copy the top-level instance in shallow mode', () => {
+    const entity = createEntity();
+    const dto = createMapperProxy(ReferenceMapper).toShallowDto(entity);
+
+    expect(dto.profile).not.toBe(entity.profile);
+    expect(dto.profile).toBeInstanceOf(ProfileEntity);
+    expect(dto.profile.links).toBe(entity.profile.links);
+  });
+
+  it('should let @Mapping override the strategy of the mapper', () => {
+    const entity = createEntity();
+    const dto = createMapperProxy(DeepMapper).toSummary(entity);
+
+    expect(dto.profile).toBe(entity.profile);
+    expect(dto.links).not.toBe(entity.profile.links);
+    expect(dto.links).toEqual(['https://a.dev']);
+  });
+
+  it('should fall back to the global copy strategy', () => {
+    configureMapper({ copyStrategy: 'deep' });
+    const entity = createEntity();
+
+    expect(new ReferenceMapper().toDto(entity).tags).not.toBe(entity.tags);
+  });
+});
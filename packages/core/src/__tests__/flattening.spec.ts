@@ -0,0 +1,168 @@
+import {
+  AutoMap,
+  BeanMapping,
+  Mapper,
+  Mapping,
+  MappingTarget,
+  configureMapper,
+  createMapperProxy,
+  resetMapperConfig,
+  transform,
+  transformInto,
+} from '../index';
+
+class AddressEntity {
+  city = '';
+}
+
+class ProfileEntity {
+  bio = '';
+  address = new AddressEntity();
+}
+
+class UserEntity {
+  id = 0;
+  profile = new ProfileEntity();
+}
+
+class UserSummaryDto {
+  id = 0;
+  profileBio = '';
+  profileAddressCity = '';
+}
+
+class ProfileDto {
+  bio = '';
+  avatar = '';
+}
+
+class UserDto {
+  id = 0;
+  profile: ProfileDto | null = new ProfileDto();
+}
+
+class UserForm {
+  id = 0;
+  profileBio = '';
+  profileAvatar = '';
+}
+
+@Mapper({ flattening: true, unmappedSourcePolicy: 'error' })
+class UserMapper {
+  toSummary(user: UserEntity): UserSummaryDto {
+    return transform(this, 'toSummary', user, UserSummaryDto);
+  }
+
+  toDto(form: UserForm): UserDto {
+    return transform(this, 'toDto', form, UserDto);
+  }
+
+  update(form: UserForm, @MappingTarget() dto: UserDto): UserDto {
+    return transformInto(this, 'update', form, dto);
+  }
+
+  @Mapping({ source: 'profileAvatar', target: 'profile.bio' })
+  @Mapping({ target: 'profile.avatar', ignore: true })
+  @BeanMapping({ unmappedSourcePolicy: 'ignore' })
+  @AutoMap()
+  toAvatarDto(_form: UserForm): UserDto {
+    return {} as UserDto;
+  }
+
+  @BeanMapping({ flattening: false, unmappedSourcePolicy: 'ignore' })
+  @AutoMap()
+  toPlainSummary(_user: UserEntity): UserSummaryDto {
+    return {} as UserSummaryDto;
+  }
+}
+
+@Mapper()
+class PlainMapper {
+  toSummary(user: UserEntity): UserSummaryDto {
+    return transform(this, 'toSummary', user, UserSummaryDto);
+  }
+}
+
+describe('Flattening', () => {
+  const createUser = () =>
+    Object.assign(new UserEntity(), {
+      id: 1,
+      profile: Object.assign(new ProfileEntity(), {
+        bio: 'Hello',
+        address: Object.assign(new AddressEntity(), { city: 'Urumqi' }),
+      }),
+    });
+
+  const createForm = () =>
+    Object.assign(new UserForm(), { id: 1, profileBio: 'Hello', profileAvatar: 'a.png' });
+
+  afterEach(() => {
+    resetMapperConfig();
+  });
+
+  it('should flatten nested source properties into camel-cased target properties', () => {
+    const summary = new UserMapper().toSummary(createUser());
+
+    expect(summary).toEqual(
+      Object.assign(new UserSummaryDto(), {
+        id: 1,
+        profileBio: 'Hello',
+        profileAddressCity: 'Urumqi',
+      })
+    );
+  });
+
+  it('should prefer a direct name match over a flattened path', () => {
+    const user = Object.assign(createUser(), { profileBio: 'Direct' });
+
+    expect(new UserMapper().toSummary(user).profileBio).toBe('Direct');
+  });
+
+  it('should try paths with the shortest leading properties first', () => {
+    const user = createUser();
+    Object.assign(user.profile, { addressCity: 'Kashgar' });
+
+    expect(new UserMapper().toSummary(user).profileAddressCity).toBe('Urumqi');
+  });
+
+  it('should leave targets without a matching path at their initial value', () => {
+    const user = createUser();
+    (user as any).profile = null;
+
+    configureMapper({ flattening: true });
+    const summary = new PlainMapper().toSummary(user);
+    expect(summary.profileBio).toBe('');
+    expect(summary.profileAddressCity).toBe('');
+  });
+
+  it('should unflatten prefixed source properties into the initial nested target object', () => {
+    const dto = new UserMapper().toDto(createForm());
+
+    expect(dto.id).toBe(1);
+    expect(dto.profile).toBeInstanceOf(ProfileDto);
+    expect(dto.profile).toEqual(Object.assign(new ProfileDto(), { bio: 'Hello', avatar: 'a.png' }));
+  });
+
+  it('should let explicit nested targets take precedence over unflattened properties', () => {
+    const dto = createMapperProxy(UserMapper).toAvatarDto(createForm());
+
+    expect(dto.profile).toEqual(Object.assign(new ProfileDto(), { bio: 'a.png', avatar: '' }));
+  });
+
+  it('should create missing nested objects as plain objects, like explicit nested targets', () => {
+    const target = Object.assign(new UserDto(), { profile: null });
+    const dto = new UserMapper().update(createForm(), target);
+
+    expect(dto).toBe(target);
+    expect(dto.profile).not.toBeInstanceOf(ProfileDto);
+    expect(dto.profile).toEqual({ bio: 'Hello', avatar: 'a.png' });
+  });
+
+  it('should be opt-in per mapper, per method and globally', () => {
+    expect(new PlainMapper().toSummary(createUser()).profileBio).toBe('');
+    expect(createMapperProxy(UserMapper).toPlainSummary(createUser()).profileBio).toBe('');
+
+    configureMapper({ flattening: true });
+    expect(new PlainMapper().toSummary(createUser()).profileBio).toBe('Hello');
+  });
+});
@@ -0,0 +1,261 @@
+import {
+  AutoMap,
+  InheritConfiguration,
+  InheritInverseConfiguration,
+  Mapper,
+  Mapping,
+  MappingConstants,
+  createMapperProxy,
+  metadataStorage,
+  transform,
+} from '../index';
+
+class UserEntity {
+  id = 0;
+  fullName = '';
+  email = '';
+  profile: { bio: string } = { bio: '' };
+  createdAt = '';
+}
+
+class UserDto {
+  id = 0;
+  name = '';
+  email = '';
+  bio = '';
+  createdAt = '';
+}
+
+@Mapper({
+  converters: {
+    toUpper: (value: string) => value.toUpperCase(),
+    toLower: (value: string) => value.toLowerCase(),
+  },
+})
+class UserMapper {
+  @Mapping({ source: 'fullName', target: 'name' })
+  @Mapping({ source: 'profile.bio', target: 'bio' })
+  @Mapping({ source: 'email', target: 'email', transform: 'toUpper', inverseTransform: 'toLower' })
+  @Mapping({ target: 'createdAt', ignore: true })
+  toDto(entity: UserEntity): UserDto {
+    return transform(this, 'toDto', entity, UserDto);
+  }
+
+  @InheritInverseConfiguration('toDto')
+  toEntity(dto: UserDto): UserEntity {
+    return transform(this, 'toEntity', dto, UserEntity);
+  }
+
+  @InheritConfiguration('toDto')
+  @Mapping({ source: 'id', target: 'bio', transform: (id: number) => `#${id}` })
+  toSummaryDto(entity: UserEntity): UserDto {
+    return transform(this, 'toSummaryDto', entity, UserDto);
+  }
+
+  @InheritInverseConfiguration('toDto')
+  @Mapping({ target: 'email', ignore: true })
+  @AutoMap()
+  toEntityAuto(_dto: UserDto): UserEntity {
+    return {} as UserEntity;
+  }
+}
+
+@Mapper()
+class IrreversibleMapper {
+  @Mapping({ source: 'fullName', target: 'name', transform: (value: string) => value.trim() })
+  toDto(entity: UserEntity): UserDto {
+    return transform(this, 'toDto', entity, UserDto);
+  }
+
+  @InheritInverseConfiguration('toDto')
+  toEntity(dto: UserDto): UserEntity {
+    return transform(this, 'toEntity', dto, UserEntity);
+  }
+
+  @InheritConfiguration('toDtoV2')
+  toDtoV1(entity: UserEntity): UserDto {
+    return transform(this, 'toDtoV1', entity, UserDto);
+  }
+}
+
+class InvoiceEntity {
+  issuedAt = new Date(0);
+  amount = 0;
+  paid = false;
+  status = '';
+}
+
+class InvoiceDto {
+  issuedOn = '';
+  amount = '';
+  paid = '';
+  status = '';
+}
+
+@Mapper()
+class InvoiceMapper {
+  @Mapping({ source: 'issuedAt', target: 'issuedOn', dateFormat: 'dd.MM.yyyy' })
+  @Mapping({ source: 'amount', target: 'amount', numberFormat: '#,##0.00' })
+  @Mapping({ source: 'paid', target: 'paid', booleanFormat: 'Y/N' })
+  @Mapping({ source: 'status', target: 'status', values: { O: 'open', C: 'closed' } })
+  toDto(entity: InvoiceEntity): InvoiceDto {
+    return transform(this, 'toDto', entity, InvoiceDto);
+  }
+
+  @InheritInverseConfiguration('toDto')
+  toEntity(dto: InvoiceDto): InvoiceEntity {
+    return transform(this, 'toEntity', dto, InvoiceEntity);
+  }
+
+  @Mapping({ source: 'status', target: 'status', values: { O: 'open', P: 'open', C: 'closed' } })
+  toLossyDto(entity: InvoiceEntity): InvoiceDto {
+    return transform(this, 'toLossyDto', entity, InvoiceDto);
+  }
+
+  @InheritInverseConfiguration('toLossyDto')
+  fromLossyDto(dto: InvoiceDto): InvoiceEntity {
+    return transform(this, 'fromLossyDto', dto, InvoiceEntity);
+  }
+
+  @Mapping({
+    source: 'status',
+    target: 'status',
+    values: { O: 'open', [MappingConstants.ANY_REMAINING]: 'other' },
+  })
+  toFallbackDto(entity: InvoiceEntity): InvoiceDto {
+    return transform(this, 'toFallbackDto', entity, InvoiceDto);
+  }
+
+  @InheritInverseConfiguration('toFallbackDto')
+  fromFallbackDto(dto: InvoiceDto): InvoiceEntity {
+    return transform(this, 'fromFallbackDto', dto, InvoiceEntity);
+  }
+}
+
+class AccountEntity {
+  status = 0;
+}
+
+class AccountDto {
+  status = '';
+}
+
+@Mapper()
+class AccountMapper {
+  @Mapping({ source: 'status', target: 'status', values: { 1: 'active', 0: 'inactive' } })
+  toDto(entity: AccountEntity): AccountDto {
+    return transform(this, 'toDto', entity, AccountDto);
+  }
+
+  @InheritInverseConfiguration('toDto')
+  toEntity(dto: AccountDto): AccountEntity {
+    return transform(this, 'toEntity', dto, AccountEntity);
+  }
+}
+
+describe('Inherited mapping configuration', () => {
+  const entity = Object.assign(new UserEntity(), {
+    id: 3,
+    fullName: 'Jane Doe',
+    email: 'jane@example.com',
+    profile: { bio: 'Engineer' },
+    createdAt: '2024-01-01',
+  });
+
+  it('should derive reversed mappings for @InheritInverseConfiguration', () => {
+    expect(metadataStorage.getMappings(UserMapper, 'toEntity')).toEqual([
+      { source: 'email', target: 'email', transform: 'toLower', inverseTransform: 'toUpper' },
+      { source: 'bio', target: 'profile.bio' },
+      { source: 'name', target: 'fullName' },
+    ]);
+  });
+
+  it('should round-trip through the inverse mapping', () => {
+    const mapper = new UserMapper();
+    const dto = mapper.toDto(entity);
+
+    expect(dto.email).toBe('JANE@EXAMPLE.COM');
+    expect(dto.createdAt).toBe('');
+
+    const restored = mapper.toEntity(dto);
+    expect(restored.fullName).toBe('Jane Doe');
+    expect(restored.profile).toEqual({ bio: 'Engineer' });
+    expect(restored.email).toBe('jane@example.com');
+  });
+
+  it('should parse inverse mappings with the formats of the original mappings', () => {
+    const mapper = new InvoiceMapper();
+    const invoice = Object.assign(new InvoiceEntity(), {
+      issuedAt: new Date('2024-03-07T00:00:00.000Z'),
+      amount: 1234.5,
+      paid: true,
+      status: 'C',
+    });
+    const dto = mapper.toDto(invoice);
+
+    expect(dto).toEqual({
+      issuedOn: '07.03.2024',
+      amount: '1,234.50',
+      paid: 'Y',
+      status: 'closed',
+    });
+    expect(mapper.toEntity(dto)).toEqual(invoice);
+  });
+
+  it('should reverse one-to-one value maps', () => {
+    expect(metadataStorage.getMappings(InvoiceMapper, 'toEntity')).toContainEqual({
+      source: 'status',
+      target: 'status',
+      values: { open: 'O', closed: 'C' },
+    });
+  });
+
+  it('should restore numeric keys when reversing value maps', () => {
+    const mapper = new AccountMapper();
+    const account = Object.assign(new AccountEntity(), { status: 1 });
+    const dto = mapper.toDto(account);
+
+    expect(dto.status).toBe('active');
+    expect(mapper.toEntity(dto)).toEqual(account);
+    expect(mapper.toEntity(Object.assign(new AccountDto(), { status: 'inactive' })).status).toBe(0);
+  });
+
+  it('should reject value maps that are not one-to-one', () => {
+    const mapper = new InvoiceMapper();
+
+    expect(() => mapper.fromLossyDto(new InvoiceDto())).toThrow(
+      'Cannot invert the mapping of InvoiceMapper.toLossyDto (target: status) for InvoiceMapper.fromLossyDto: value maps can only be reversed when they are one-to-one. Override the mapping on InvoiceMapper.fromLossyDto.'
+    );
+    expect(() => mapper.fromFallbackDto(new InvoiceDto())).toThrow(
+      'value maps can only be reversed when they are one-to-one'
+    );
+  });
+
+  it('should let local mappings override inherited ones', () => {
+    const dto = new UserMapper().toSummaryDto(entity);
+
+    expect(dto.name).toBe('Jane Doe');
+    expect(dto.bio).toBe('#3');
+    expect(dto.email).toBe('JANE@EXAMPLE.COM');
+  });
+
+  it('should apply inherited configuration on the auto-transform path', () => {
+    const restored = createMapperProxy(UserMapper).toEntityAuto(new UserMapper().toDto(entity));
+
+    expect(restored.fullName).toBe('Jane Doe');
+    expect(restored.profile.bio).toBe('Engineer');
+    expect(restored.email).toBe('');
+  });
+
+  it('should reject converters without an inverse converter', () => {
+    expect(() => new IrreversibleMapper().toEntity(new UserDto())).toThrow(
+      'Cannot invert the mapping of IrreversibleMapper.toDto (target: name) for IrreversibleMapper.toEntity: converters cannot be reversed automatically. Add an inverseTransform to the @Mapping or override the mapping on IrreversibleMapper.toEntity.'
+    );
+  });
+
+  it('should reject references to unknown methods', () => {
+    expect(() => new IrreversibleMapper().toDtoV1(entity)).toThrow(
+      'IrreversibleMapper.toDtoV1 inherits the configuration of IrreversibleMapper.toDtoV2, which does not exist.'
+    );
+  });
+});
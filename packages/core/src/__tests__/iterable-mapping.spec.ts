@@ -0,0 +1,183 @@
+import {
+  AutoMap,
+  IterableMapping,
+  Mapper,
+  Mapping,
+  createMapperProxy,
+  isIterableMethod,
+  transform,
+  transformIterable,
+} from '../index';
+
+class TagEntity {
+  label = '';
+}
+
+class TagDto {
+  name = '';
+}
+
+class PostEntity {
+  title = '';
+  tags: TagEntity[] = [];
+  tagSet: Set<TagEntity> = new Set();
+}
+
+class PostDto {
+  title = '';
+  tags: TagDto[] = [];
+  tagSet: Set<TagDto> = new Set();
+}
+
+function tag(label: string): TagEntity {
+  return Object.assign(new TagEntity(), { label });
+}
+
+@Mapper()
+class TagMapper {
+  @Mapping({ source: 'label', target: 'name' })
+  toDto(entity: TagEntity): TagDto {
+    return transform(this, 'toDto', entity, TagDto);
+  }
+
+  @IterableMapping({ elementType: TagDto, using: 'toDto' })
+  toDtoList(entities: TagEntity[]): TagDto[] {
+    return transformIterable(this, 'toDtoList', entities);
+  }
+
+  @IterableMapping({ elementType: TagDto, nullValue: 'empty' })
+  toDtoSet(entities: Set<TagEntity> | null): Set<TagDto> {
+    return transformIterable(this, 'toDtoSet', entities);
+  }
+
+  @IterableMapping({ elementType: TagDto })
+  toDtoMap(entities: Map<string, TagEntity>): Map<string, TagDto> {
+    return transformIterable(this, 'toDtoMap', entities);
+  }
+}
+
+@Mapper()
+abstract class TagAutoMapper {
+  @Mapping({ source: 'label', target: 'name' })
+  @AutoMap()
+  toDto(_entity: TagEntity): TagDto {
+    return {} as TagDto;
+  }
+
+  @AutoMap()
+  toDtoList(_entities: TagEntity[] | null): TagDto[] {
+    return [] as TagDto[];
+  }
+
+  // No sibling method: elements are mapped with the mappings declared here
+  @IterableMapping({ elementType: TagDto })
+  @Mapping({ source: 'label', target: 'name' })
+  @AutoMap()
+  toTagDtos(_entities: TagEntity[]): TagDto[] {
+    return [] as TagDto[];
+  }
+}
+
+@Mapper({ uses: [TagMapper] })
+class PostMapper {
+  toDto(entity: PostEntity): PostDto {
+    return transform(this, 'toDto', entity, PostDto);
+  }
+}
+
+describe('Iterable mapping', () => {
+  const mapper = new TagMapper();
+
+  it('should map arrays through the element method', () => {
+    const dtos = mapper.toDtoList([tag('a'), tag('b')]);
+
+    expect(dtos).toHaveLength(2);
+    expect(dtos[0]).toBeInstanceOf(TagDto);
+    expect(dtos.map(dto => dto.name)).toEqual(['a', 'b']);
+  });
+
+  it('should map Sets into Sets and keep Map keys', () => {
+    const set = mapper.toDtoSet(new Set([tag('a')]));
+    const map = mapper.toDtoMap(new Map([['first', tag('b')]]));
+
+    expect(set).toBeInstanceOf(Set);
+    expect(Array.from(set)[0].name).toBe('a');
+    expect(map).toBeInstanceOf(Map);
+    expect(map.get('first')).toBeInstanceOf(TagDto);
+    expect(map.get('first')!.name).toBe('b');
+  });
+
+  it('should define behavior for null and empty collections', () => {
+    expect(mapper.toDtoList(null as any)).toBeNull();
+    expect(mapper.toDtoList(undefined as any)).toBeUndefined();
+    expect(mapper.toDtoList([])).toEqual([]);
+    expect(mapper.toDtoSet(null)).toEqual(new Set());
+    expect(mapper.toDtoList([tag('a'), null as any])[1]).toBeNull();
+  });
+
+  it('should auto-implement empty-bodied collection methods from the sibling method', () => {
+    const autoMapper = createMapperProxy(TagAutoMapper as any) as TagAutoMapper;
+
+    const dtos = autoMapper.toDtoList([tag('a'), tag('b')]);
+
+    expect(dtos.map(dto => dto.name)).toEqual(['a', 'b']);
+    expect(dtos[0]).toBeInstanceOf(TagDto);
+    expect(autoMapper.toDtoList(null)).toBeNull();
+  });
+
+  it('should fall back to the collection method mappings when no sibling exists', () => {
+    const autoMapper = createMapperProxy(TagAutoMapper as any) as TagAutoMapper;
+
+    expect(autoMapper.toTagDtos([tag('x')])[0].name).toBe('x');
+  });
+
+  it('should convert nested collections through used mappers', () => {
+    const entity = new PostEntity();
+    entity.title = 'Hello';
+    entity.tags = [tag('a'), tag('b')];
+    entity.tagSet = new Set([tag('c')]);
+
+    const dto = new PostMapper().toDto(entity);
+
+    expect(dto.tags.map(item => item.name)).toEqual(['a', 'b']);
+    expect(dto.tags[0]).toBeInstanceOf(TagDto);
+    expect(dto.tagSet).toBeInstanceOf(Set);
+    expect(Array.from(dto.tagSet)[0].name).toBe('c');
+  });
+
+  it('should report collection methods without an element mapping', () => {
+    @Mapper()
+    class BrokenMapper {
+      @IterableMapping()
+      convertAll(entities: TagEntity[]): TagDto[] {
+        return transformIterable(this, 'convertAll', entities);
+      }
+    }
+
+    expect(() => new BrokenMapper().convertAll([tag('a')])).toThrow(
+      'Unable to resolve the element mapping of BrokenMapper.convertAll.'
+    );
+  });
+
+  it('should not derive element methods from plural method names', () => {
+    class DetailMapper {
+      toDetail(entity: TagEntity): TagDto {
+        return transform(this, 'toDetail', entity, TagDto);
+      }
+
+      toDetails(entity: TagEntity): TagDto {
+        return transform(this, 'toDetails', entity, TagDto);
+      }
+
+      toDetailList(entities: TagEntity[]): TagDto[] {
+        return transformIterable(this, 'toDetailList', entities);
+      }
+    }
+
+    expect(isIterableMethod(DetailMapper, 'toDetails', undefined, null)).toBe(false);
+    expect(isIterableMethod(DetailMapper, 'toDetailList', undefined, null)).toBe(true);
+    expect(() => transformIterable(new DetailMapper(), 'toDetails', [tag('a')])).toThrow(
+      'Unable to resolve the element mapping of DetailMapper.toDetails.'
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { AutoMap, Mapper, Mapping, createMapperProxy, metadataStorage, transform } from '../index';
+
+class ProfileEntity {
+  biography = '';
+}
+
+class ProfileDto {
+  bio = '';
+}
+
+class UserEntity {
+  id = 0;
+  fullName = '';
+  email = '';
+  created = '';
+  updated = '';
+  profile: ProfileEntity = new ProfileEntity();
+}
+
+class UserDto {
+  id = 0;
+  name = '';
+  email = '';
+  createdAt = '';
+  updatedAt = '';
+  profile: ProfileDto = new ProfileDto();
+}
+
+@Mapper()
+class ProfileMapper {
+  @Mapping({ source: 'biography', target: 'bio' })
+  toDto(profile: ProfileEntity): ProfileDto {
+    return transform(this, 'toDto', profile, ProfileDto);
+  }
+}
+
+@Mapper({
+  uses: [ProfileMapper],
+  converters: { trim: (value: string) => value.trim() },
+  unmappedTargetPolicy: 'error',
+})
+abstract class BaseAuditMapper {
+  @Mapping({ source: 'fullName', target: 'name' })
+  @Mapping({ source: 'created', target: 'createdAt' })
+  @Mapping({ source: 'updated', target: 'updatedAt' })
+  @AutoMap()
+  toDto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+}
+
+@Mapper({
+  converters: { upper: (value: string) => value.toUpperCase() },
+  unmappedTargetPolicy: 'ignore',
+})
+class UserMapper extends BaseAuditMapper {
+  @Mapping({ source: 'fullName', target: 'name', transform: 'upper' })
+  @Mapping({ source: 'updated', target: 'updatedAt', transform: 'trim' })
+  @AutoMap()
+  toDto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+}
+
+@Mapper()
+class StrictUserMapper extends BaseAuditMapper {}
+
+describe('Mapper class hierarchies', () => {
+  const entity = Object.assign(new UserEntity(), {
+    id: 1,
+    fullName: 'Jane',
+    email: 'jane@example.com',
+    created: '2024-01-01',
+    updated: ' 2024-02-01 ',
+    profile: Object.assign(new ProfileEntity(), { biography: 'Engineer' }),
+  });
+
+  it('should inherit parent mappings and let subclasses override the same target', () => {
+    const dto = createMapperProxy(UserMapper).toDto(entity);
+
+    expect(dto.createdAt).toBe('2024-01-01');
+    expect(dto.updatedAt).toBe('2024-02-01');
+    expect(dto.name).toBe('JANE');
+    expect(dto.email).toBe('jane@example.com');
+  });
+
+  it('should merge @Mapper() options down the hierarchy', () => {
+    const options = metadataStorage.getMapperOptions(UserMapper);
+
+    expect(options.uses).toEqual([ProfileMapper]);
+    expect(Object.keys(options.converters!)).toEqual(['trim', 'upper']);
+    expect(options.unmappedTargetPolicy).toBe('ignore');
+    expect(metadataStorage.getMapperOptions(StrictUserMapper).unmappedTargetPolicy).toBe('error');
+  });
+
+  it('should delegate nested properties to mappers used by a parent', () => {
+    const dto = createMapperProxy(UserMapper).toDto(entity);
+
+    expect(dto.profile).toBeInstanceOf(ProfileDto);
+    expect(dto.profile.bio).toBe('Engineer');
+  });
+
+  it('should apply inherited mappings to subclasses without their own', () => {
+    const dto = createMapperProxy(StrictUserMapper).toDto(entity);
+
+    expect(dto.name).toBe('Jane');
+    expect(dto.createdAt).toBe('2024-01-01');
+    expect(dto.profile.bio).toBe('Engineer');
+  });
+
+  it('should support abstract base mappers with createMapperProxy', () => {
+    const mapper = createMapperProxy(BaseAuditMapper as any) as BaseAuditMapper;
+    const dto = mapper.toDto(entity);
+
+    expect(dto.name).toBe('Jane');
+    expect(dto.updatedAt).toBe(' 2024-02-01 ');
+  });
+});
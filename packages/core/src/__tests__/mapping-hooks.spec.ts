@@ -0,0 +1,136 @@
+import {
+  AfterMapping,
+  AutoMap,
+  BeforeMapping,
+  IterableMapping,
+  Mapper,
+  Mapping,
+  MappingContext,
+  MappingTarget,
+  createMapperProxy,
+  transform,
+  transformIterable,
+} from '../index';
+
+class UserDto {
+  name = '';
+  email = '';
+}
+
+class UserEntity {
+  name = '';
+  email = '';
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+class AuditedEntity extends UserEntity {
+  audited = false;
+}
+
+class UserSummary {
+  name = '';
+}
+
+@Mapper()
+class BaseMapper {
+  calls: string[] = [];
+
+  @AfterMapping({ targetType: UserEntity })
+  setTimestamps(_source: unknown, entity: UserEntity): void {
+    this.calls.push('base:after');
+    entity.createdAt = new Date(0);
+    entity.updatedAt = new Date(0);
+  }
+}
+
+@Mapper()
+class UserMapper extends BaseMapper {
+  @BeforeMapping()
+  trimInput(dto: UserDto, target: object, context: MappingContext): void {
+    this.calls.push(`before:${context.method}:${target.constructor.name}`);
+    if (dto) dto.email = dto.email.trim();
+  }
+
+  @AfterMapping({ sourceType: UserDto })
+  normalizeEmail(_dto: UserDto, target: { email: string }): void {
+    this.calls.push('after');
+    target.email = target.email.toLowerCase();
+  }
+
+  toEntity(dto: UserDto): UserEntity {
+    return transform(this, 'toEntity', dto, UserEntity);
+  }
+
+  @Mapping({ source: 'name', target: 'name' })
+  @AutoMap()
+  toAuditedEntity(_dto: UserDto): AuditedEntity {
+    return {} as AuditedEntity;
+  }
+
+  @Mapping({ source: 'name', target: 'name' })
+  @AutoMap()
+  toSummary(_entity: UserEntity): UserSummary {
+    return {} as UserSummary;
+  }
+
+  @AutoMap()
+  updateEntity(_dto: UserDto, @MappingTarget() _entity: UserEntity): UserEntity {
+    return {} as UserEntity;
+  }
+
+  @IterableMapping({ using: 'toEntity' })
+  toEntities(dtos: UserDto[]): UserEntity[] {
+    return transformIterable(this, 'toEntities', dtos);
+  }
+}
+
+describe('Lifecycle hooks', () => {
+  const createDto = () =>
+    Object.assign(new UserDto(), { name: 'Jane', email: ' Jane@Example.com ' });
+
+  it('should run @BeforeMapping() and @AfterMapping() methods around transform()', () => {
+    const mapper = new UserMapper();
+    const entity = mapper.toEntity(createDto());
+
+    expect(entity.email).toBe('jane@example.com');
+    expect(entity.createdAt).toEqual(new Date(0));
+    expect(mapper.calls).toEqual(['before:toEntity:UserEntity', 'base:after', 'after']);
+  });
+
+  it('should run parent hooks first and filter hooks by source and target type', () => {
+    const mapper = createMapperProxy(UserMapper);
+
+    const entity = mapper.toAuditedEntity({ name: 'Jane', email: ' Jane@Example.com ' });
+    expect(entity.updatedAt).toEqual(new Date(0));
+    expect(entity.email).toBe('Jane@Example.com');
+    expect(mapper.calls).toEqual(['before:toAuditedEntity:AuditedEntity', 'base:after']);
+
+    mapper.calls = [];
+    const summary = mapper.toSummary(Object.assign(new UserEntity(), { name: 'Jane' }));
+    expect(summary.name).toBe('Jane');
+    expect(mapper.calls).toEqual(['before:toSummary:UserSummary']);
+  });
+
+  it('should pass the existing target to hooks of update methods', () => {
+    const mapper = createMapperProxy(UserMapper);
+    const existing = new UserEntity();
+
+    const updated = mapper.updateEntity(
+      Object.assign(new UserDto(), { name: 'Jane', email: 'A@B.C' }),
+      existing
+    );
+
+    expect(updated).toBe(existing);
+    expect(existing.email).toBe('a@b.c');
+    expect(existing.createdAt).toEqual(new Date(0));
+  });
+
+  it('should run hooks for every element of a collection', () => {
+    const mapper = new UserMapper();
+    const entities = mapper.toEntities([new UserDto(), new UserDto()]);
+
+    expect(entities.every(entity => entity.createdAt instanceof Date)).toBe(true);
+    expect(mapper.calls.filter(call => call === 'base:after')).toHaveLength(2);
+  });
+});
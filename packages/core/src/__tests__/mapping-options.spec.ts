@@ -0,0 +1,119 @@
+import { AutoMap, Mapper, Mapping, createMapperProxy, transform } from '../index';
+
+class UserEntity {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+  nickname: string | null;
+
+  constructor(data: Partial<UserEntity> = {}) {
+    this.id = data.id || 0;
+    this.firstName = data.firstName || '';
+    this.lastName = data.lastName || '';
+    this.email = data.email || '';
+    this.password = data.password || '';
+    this.nickname = data.nickname ?? null;
+  }
+}
+
+class UserDto {
+  id = 0;
+  email = '';
+  password = '';
+  fullName = '';
+  nickname = '';
+  source = '';
+  version = 0;
+}
+
+@Mapper()
+class UserMapper {
+  @Mapping({ target: 'password', ignore: true })
+  @Mapping({ target: 'source', constant: 'api' })
+  @Mapping({ target: 'version', constant: 2 })
+  @Mapping({
+    target: 'fullName',
+    expression: (src: UserEntity) => `${src.firstName} ${src.lastName}`,
+  })
+  @Mapping({ source: 'nickname', target: 'nickname', defaultValue: 'anonymous' })
+  toDto(entity: UserEntity): UserDto {
+    return transform(this, 'toDto', entity, UserDto);
+  }
+
+  @Mapping({ target: 'password', ignore: true })
+  @Mapping({
+    target: 'fullName',
+    expression: (src: UserEntity) => src.firstName,
+    transform: (value: string) => value.toUpperCase(),
+  })
+  @AutoMap()
+  toDtoAuto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+}
+
+describe('Mapping options', () => {
+  const entity = new UserEntity({
+    id: 1,
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john@example.com',
+    password: 'secret',
+  });
+
+  it('should never copy ignored targets, even when names match', () => {
+    const dto = new UserMapper().toDto(entity);
+
+    expect(dto.password).toBe('');
+    expect(dto.email).toBe('john@example.com');
+  });
+
+  it('should write constants', () => {
+    const dto = new UserMapper().toDto(entity);
+
+    expect(dto.source).toBe('api');
+    expect(dto.version).toBe(2);
+  });
+
+  it('should compute targets from expressions', () => {
+    expect(new UserMapper().toDto(entity).fullName).toBe('John Doe');
+  });
+
+  it('should use defaultValue only when the source is null or undefined', () => {
+    expect(new UserMapper().toDto(entity).nickname).toBe('anonymous');
+    expect(new UserMapper().toDto(new UserEntity({ nickname: 'jd' })).nickname).toBe('jd');
+  });
+
+  it('should not evaluate expressions for a null source', () => {
+    const dto = new UserMapper().toDto(null as any);
+
+    expect(dto.fullName).toBeUndefined();
+    expect(dto.source).toBe('api');
+    expect(dto.nickname).toBe('anonymous');
+  });
+
+  it('should apply the options on the auto-transform path', () => {
+    const dto = createMapperProxy(UserMapper).toDtoAuto(entity);
+
+    expect(dto.password).toBe('');
+    expect(dto.fullName).toBe('JOHN');
+  });
+
+  it('should reject contradicting options at decoration time', () => {
+    const decorate = (options: any) => () =>
+      Mapping(options)(UserMapper.prototype, 'invalid', {} as PropertyDescriptor);
+
+    expect(decorate({ target: 'name' })).toThrow(
+      'Invalid @Mapping on UserMapper.invalid (target: name): exactly one of source, constant or expression must be given.'
+    );
+    expect(decorate({ source: 'a', target: 'name', constant: 1 })).toThrow(
+      'exactly one of source, constant or expression must be given.'
+    );
+    expect(decorate({ source: 'a', target: 'name', ignore: true })).toThrow(
+      'ignore cannot be combined with source, constant, expression or defaultValue.'
+    );
+    expect(decorate({ source: 'a' })).toThrow('target is required.');
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  Mapper,
+  Mapping,
+  configureMapper,
+  createMapperProxy,
+  getMappingPlan,
+  metadataStorage,
+  resetMapperConfig,
+  transform,
+} from '../index';
+
+class OrderEntity {
+  id: number;
+  reference: string;
+  total: number;
+  customer: {
+    name: string;
+    email: string;
+  };
+  status: string;
+  note: string;
+
+  constructor(data: Partial<OrderEntity> = {}) {
+    this.id = data.id || 0;
+    this.reference = data.reference || '';
+    this.total = data.total || 0;
+    this.customer = data.customer || { name: '', email: '' };
+    this.status = data.status || 'new';
+    this.note = data.note || '';
+  }
+}
+
+class OrderDto {
+  id: number;
+  code: string;
+  total: number;
+  customerName: string;
+  customerEmail: string;
+  status: string;
+  note: string;
+
+  constructor() {
+    this.id = 0;
+    this.code = '';
+    this.total = 0;
+    this.customerName = '';
+    this.customerEmail = '';
+    this.status = '';
+    this.note = '';
+  }
+}
+
+@Mapper()
+class OrderMapper {
+  @Mapping({ source: 'reference', target: 'code' })
+  @Mapping({ source: 'customer.name', target: 'customerName' })
+  @Mapping({ source: 'customer.email', target: 'customerEmail' })
+  toDto(entity: OrderEntity): OrderDto {
+    return transform(this, 'toDto', entity, OrderDto);
+  }
+}
+
+/**
+ * Interpretive implementation of transform() prior to plan compilation,
+ * kept here as the reference for functional equivalence.
+ * The timing comparison lives in scripts/benchmark-mapping-plan.js.
+ */
+function legacyTransform<TInput, TOutput>(
+  mapper: any,
+  method: string,
+  input: TInput,
+  outputType: new () => TOutput
+): TOutput {
+  const getValue = (obj: any, path: string) =>
+    path.split('.').reduce((acc, key) => acc?.[key], obj);
+  const setValue = (obj: any, path: string, value: any) => {
+    const keys = path.split('.');
+    const lastKey = keys.pop()!;
+    const target = keys.reduce((acc, key) => (acc[key] ??= {}), obj);
+    target[lastKey] = value;
+  };
+
+  const output = new outputType();
+  const mappings = metadataStorage.getMappings(mapper.constructor, method);
+  const usedTargetKeys = new Set<string>();
+
+  for (const mapping of mappings) {
+    setValue(output, mapping.target, getValue(input, mapping.source!));
+    usedTargetKeys.add(mapping.target);
+  }
+
+  const outputKeys = new Set([
+    ...Object.getOwnPropertyNames(output),
+    ...Object.getOwnPropertyNames(Object.getPrototypeOf(output)),
+  ]);
+
+  for (const key of Object.keys(input || {})) {
+    if (outputKeys.has(key) && !usedTargetKeys.has(key)) {
+      const inputValue = (input as any)[key];
+      const outputValue = (output as any)[key];
+      if (outputValue === undefined || typeof inputValue === typeof outputValue) {
+        (output as any)[key] = inputValue;
+      }
+    }
+  }
+
+  return output;
+}
+
+function createOrders(count: number): OrderEntity[] {
+  return Array.from(
+    { length: count },
+    (_, i) =>
+      new OrderEntity({
+        id: i + 1,
+        reference: `ORD-${i}`,
+        total: i * 10,
+        customer: { name: `Customer ${i}`, email: `customer${i}@example.com` },
+        status: i % 2 ? 'paid' : 'new',
+        note: 'note',
+      })
+  );
+}
+
+describe('Mapping plan', () => {
+  let mapper: OrderMapper;
+
+  beforeEach(() => {
+    mapper = new OrderMapper();
+  });
+
+  it('should produce the same result as the interpretive implementation', () => {
+    for (const order of createOrders(100)) {
+      expect(mapper.toDto(order)).toEqual(legacyTransform(mapper, 'toDto', order, OrderDto));
+    }
+  });
+
+  it('should compile each (mapper, method, outputType) once and reuse it', () => {
+    const plan = getMappingPlan(OrderMapper, 'toDto', OrderDto);
+
+    mapper.toDto(new OrderEntity());
+
+    expect(getMappingPlan(OrderMapper, 'toDto', OrderDto)).toBe(plan);
+    expect(getMappingPlan(OrderMapper, 'toDto', OrderEntity)).not.toBe(plan);
+  });
+
+  it('should recompile after new mapping metadata is registered', () => {
+    @Mapper()
+    class LateMapper {
+      toDto(entity: OrderEntity): OrderDto {
+        return transform(this, 'toDto', entity, OrderDto);
+      }
+    }
+
+    const lateMapper = new LateMapper();
+    const order = new OrderEntity({ reference: 'ORD-1' });
+    const plan = getMappingPlan(LateMapper, 'toDto', OrderDto);
+
+    expect(lateMapper.toDto(order).code).toBe('');
+
+    Mapping({ source: 'reference', target: 'code' })(LateMapper.prototype, 'toDto', {});
+
+    expect(getMappingPlan(LateMapper, 'toDto', OrderDto)).not.toBe(plan);
+    expect(lateMapper.toDto(order).code).toBe('ORD-1');
+  });
+
+  it('should log the field mappings of compiled plans in debug mode', () => {
+    const logger = { warn: jest.fn(), debug: jest.fn() };
+    configureMapper({ debug: true, logger });
+
+    try {
+      mapper.toDto(new OrderEntity());
+      mapper.toDto(new OrderEntity());
+    } finally {
+      resetMapperConfig();
+    }
+
+    expect(logger.debug).toHaveBeenCalledTimes(1);
+    expect(logger.debug).toHaveBeenCalledWith(
+      'Compiled mapping plan OrderMapper.toDto -> OrderDto: customerEmail <- customer.email, customerName <- customer.name, code <- reference, id (auto), total (auto), status (auto), note (auto)'
+    );
+  });
+
+  it('should keep the mapper constructor intact on proxied mappers', () => {
+    const proxy = createMapperProxy(OrderMapper);
+    const order = new OrderEntity({ reference: 'ORD-7', customer: { name: 'Ann', email: '' } });
+
+    expect(proxy.constructor).toBe(OrderMapper);
+    expect(proxy.toDto(order)).toMatchObject({ code: 'ORD-7', customerName: 'Ann' });
+  });
+});
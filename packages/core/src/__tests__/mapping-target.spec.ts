@@ -0,0 +1,124 @@
+import {
+  AutoMap,
+  BeanMapping,
+  Mapper,
+  Mapping,
+  MappingTarget,
+  createMapperProxy,
+  transformInto,
+} from '../index';
+
+class UserEntity {
+  id = 0;
+  name = '';
+  email = '';
+  role = 'member';
+  bio: string | null = 'n/a';
+}
+
+class UpdateUserDto {
+  name?: string | null;
+  email?: string | null;
+  role?: string | null;
+  biography?: string | null;
+}
+
+function createUser(): UserEntity {
+  return Object.assign(new UserEntity(), {
+    id: 7,
+    name: 'Jane',
+    email: 'jane@example.com',
+    role: 'admin',
+    bio: 'Engineer',
+  });
+}
+
+@Mapper()
+class UserMapper {
+  @Mapping({ source: 'biography', target: 'bio' })
+  update(dto: UpdateUserDto, entity: UserEntity): UserEntity {
+    return transformInto(this, 'update', dto, entity);
+  }
+
+  @Mapping({ source: 'biography', target: 'bio' })
+  @BeanMapping({ nullValuePropertyStrategy: 'ignore' })
+  patch(dto: UpdateUserDto, @MappingTarget() entity: UserEntity): UserEntity {
+    return transformInto(this, 'patch', dto, entity);
+  }
+
+  @Mapping({ source: 'biography', target: 'bio' })
+  @BeanMapping({ nullValuePropertyStrategy: 'set-default' })
+  @AutoMap()
+  reset(@MappingTarget() _entity: UserEntity, _dto: UpdateUserDto): UserEntity {
+    return {} as UserEntity;
+  }
+
+  @BeanMapping({ nullValuePropertyStrategy: 'ignore' })
+  @AutoMap()
+  patchAuto(_dto: UpdateUserDto, @MappingTarget() _entity: UserEntity): void {}
+}
+
+describe('Mapping into an existing target', () => {
+  it('should update the given instance instead of creating a new one', () => {
+    const entity = createUser();
+    const result = new UserMapper().update({ name: 'Janet', biography: 'Manager' }, entity);
+
+    expect(result).toBe(entity);
+    expect(entity).toEqual(
+      Object.assign(new UserEntity(), {
+        id: 7,
+        name: 'Janet',
+        email: 'jane@example.com',
+        role: 'admin',
+        bio: 'Manager',
+      })
+    );
+  });
+
+  it('should write null values through with the default set-null strategy', () => {
+    const entity = new UserMapper().update({ name: null }, createUser());
+
+    expect(entity.name).toBeNull();
+    // Explicit mappings read undefined for a missing source property
+    expect(entity.bio).toBeUndefined();
+  });
+
+  it('should keep existing values for null and undefined with the ignore strategy', () => {
+    const entity = new UserMapper().patch(
+      { name: null, email: undefined, role: 'owner' },
+      createUser()
+    );
+
+    expect(entity.name).toBe('Jane');
+    expect(entity.email).toBe('jane@example.com');
+    expect(entity.role).toBe('owner');
+    expect(entity.bio).toBe('Engineer');
+  });
+
+  it('should reset null values to the initial values with the set-default strategy', () => {
+    const mapper = createMapperProxy(UserMapper);
+    const entity = createUser();
+    const result = mapper.reset(entity, { role: null, email: 'new@example.com' });
+
+    expect(result).toBe(entity);
+    expect(entity.role).toBe('member');
+    expect(entity.bio).toBe('n/a');
+    expect(entity.email).toBe('new@example.com');
+    expect(entity.name).toBe('Jane');
+  });
+
+  it('should auto-implement methods with a @MappingTarget() parameter', () => {
+    const entity = createUser();
+    const result = createMapperProxy(UserMapper).patchAuto({ name: 'Janet', email: null }, entity);
+
+    expect(result).toBe(entity);
+    expect(entity.name).toBe('Janet');
+    expect(entity.email).toBe('jane@example.com');
+  });
+
+  it('should reject a missing target', () => {
+    expect(() => transformInto(new UserMapper(), 'update', {}, null as any)).toThrow(
+      'transformInto() requires an existing target object (method: UserMapper.update).'
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  AutoMap,
+  BeanMapping,
+  Mapper,
+  Mapping,
+  Source,
+  createMapperProxy,
+  transformSources,
+} from '../index';
+
+class Order {
+  id = 0;
+  total = 0;
+  note = '';
+}
+
+class Customer {
+  id = 0;
+  fullName = '';
+  email = '';
+}
+
+class Address {
+  street = '';
+  city = '';
+}
+
+class OrderDto {
+  orderId = 0;
+  total = 0;
+  customerName = '';
+  email = '';
+  city = '';
+  note = '';
+}
+
+const order = Object.assign(new Order(), { id: 10, total: 99.5, note: 'gift' });
+const customer = Object.assign(new Customer(), {
+  id: 3,
+  fullName: 'Jane Doe',
+  email: 'jane@example.com',
+});
+const address = Object.assign(new Address(), { street: 'Main St 1', city: 'Berlin' });
+
+@Mapper()
+class OrderMapper {
+  @Mapping({ source: 'order.id', target: 'orderId' })
+  @Mapping({ source: 'customer.fullName', target: 'customerName' })
+  @Mapping({ source: '$2.city', target: 'city' })
+  toOrderDto(
+    @Source('order') order: Order,
+    @Source('customer') customer: Customer,
+    address: Address
+  ): OrderDto {
+    return transformSources(this, 'toOrderDto', [order, customer, address], OrderDto);
+  }
+
+  @Mapping({ source: 'order.id', target: 'orderId' })
+  @Mapping({ source: 'customer.fullName', target: 'customerName' })
+  @Mapping({ source: 'address.city', target: 'city' })
+  @AutoMap()
+  toOrderDtoAuto(
+    @Source('order') _order: Order,
+    @Source('customer') _customer: Customer,
+    @Source('address') _address: Address
+  ): OrderDto {
+    return {} as OrderDto;
+  }
+
+  @Mapping({ source: 'customer.fullName', target: 'customerName' })
+  @AutoMap()
+  toAmbiguousDto(@Source('order') _order: any, @Source('customer') _customer: any): OrderDto {
+    return {} as OrderDto;
+  }
+
+  @Mapping({ source: 'fullName', target: 'customerName' })
+  @AutoMap()
+  toInvalidDto(@Source('order') _order: Order, @Source('customer') _customer: Customer): OrderDto {
+    return {} as OrderDto;
+  }
+
+  @Mapping({ source: '$0.id', target: 'orderId' })
+  @Mapping({ source: '$1.fullName', target: 'customerName' })
+  @BeanMapping({ unmappedSourcePolicy: 'error' })
+  @AutoMap()
+  toStrictDto(_order: Order, _customer: Customer): OrderDto {
+    return {} as OrderDto;
+  }
+}
+
+describe('Multi-source mapping', () => {
+  it('should resolve source paths by @Source() name and by position', () => {
+    const dto = new OrderMapper().toOrderDto(order, customer, address);
+
+    expect(dto.orderId).toBe(10);
+    expect(dto.customerName).toBe('Jane Doe');
+    expect(dto.city).toBe('Berlin');
+  });
+
+  it('should auto-match properties across all source parameters', () => {
+    const dto = new OrderMapper().toOrderDto(order, customer, address);
+
+    expect(dto.total).toBe(99.5);
+    expect(dto.email).toBe('jane@example.com');
+    expect(dto.note).toBe('gift');
+  });
+
+  it('should auto-implement methods with several parameters', () => {
+    const dto = createMapperProxy(OrderMapper).toOrderDtoAuto(order, customer, address);
+
+    expect(dto).toBeInstanceOf(OrderDto);
+    expect(dto.orderId).toBe(10);
+    expect(dto.customerName).toBe('Jane Doe');
+    expect(dto.city).toBe('Berlin');
+    expect(dto.email).toBe('jane@example.com');
+  });
+
+  it('should skip null source parameters', () => {
+    const dto = createMapperProxy(OrderMapper).toOrderDtoAuto(order, null as any, address);
+
+    expect(dto.customerName).toBeUndefined();
+    expect(dto.total).toBe(99.5);
+  });
+
+  it('should report properties found in several sources', () => {
+    const mapper = createMapperProxy(OrderMapper);
+
+    expect(() =>
+      mapper.toAmbiguousDto({ email: 'a@example.com' }, { email: 'b@example.com' })
+    ).toThrow(
+      `Ambiguous source property "email" in OrderMapper.toAmbiguousDto: found in order and customer. Map it explicitly, e.g. @Mapping({ source: 'order.email', target: 'email' }).`
+    );
+  });
+
+  it('should reject source paths that do not start with a source parameter', () => {
+    expect(() => createMapperProxy(OrderMapper).toInvalidDto(order, customer)).toThrow(
+      'Source "fullName" of OrderMapper.toInvalidDto (target: customerName) must start with a source parameter name: order, customer or a position such as $0.'
+    );
+  });
+
+  it('should report unmapped source properties per parameter', () => {
+    expect(() => createMapperProxy(OrderMapper).toStrictDto(order, customer)).toThrow(
+      'Unmapped source properties in OrderMapper.toStrictDto: $1.id'
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  AutoMap,
+  BeanMapping,
+  Mapper,
+  Mapping,
+  MappingError,
+  NamingStrategies,
+  configureMapper,
+  createMapperProxy,
+  resetMapperConfig,
+  transform,
+} from '../index';
+
+class UserRow {
+  id = 0;
+  full_name = '';
+  created_at = new Date(0);
+}
+
+class UserDto {
+  id = 0;
+  fullName = '';
+  createdAt = new Date(0);
+}
+
+class LegacyUser {
+  m_Id = 0;
+  m_FULLNAME = '';
+}
+
+class HeadersDto {
+  contentType = '';
+  xRequestId = '';
+}
+
+@Mapper({ namingStrategy: NamingStrategies.snakeCase, unmappedSourcePolicy: 'error' })
+class UserMapper {
+  toDto(row: UserRow): UserDto {
+    return transform(this, 'toDto', row, UserDto);
+  }
+
+  toRow(dto: UserDto): UserRow {
+    return transform(this, 'toRow', dto, UserRow);
+  }
+
+  @Mapping({ source: 'display_name', target: 'fullName' })
+  @BeanMapping({ unmappedSourcePolicy: 'ignore' })
+  @AutoMap()
+  toDisplayDto(_row: UserRow & { display_name: string }): UserDto {
+    return {} as UserDto;
+  }
+
+  @BeanMapping({
+    namingStrategy: [NamingStrategies.stripPrefix('m_'), NamingStrategies.caseInsensitive],
+  })
+  @AutoMap()
+  fromLegacy(_user: LegacyUser): UserDto {
+    return {} as UserDto;
+  }
+
+  @BeanMapping({ namingStrategy: NamingStrategies.kebabCase })
+  @AutoMap()
+  toHeaders(_headers: Record<string, string>): HeadersDto {
+    return {} as HeadersDto;
+  }
+}
+
+@Mapper()
+class PlainMapper {
+  toDto(row: UserRow): UserDto {
+    return transform(this, 'toDto', row, UserDto);
+  }
+}
+
+describe('Naming strategies', () => {
+  const row = Object.assign(new UserRow(), {
+    id: 1,
+    full_name: 'Jane Doe',
+    created_at: new Date(1000),
+  });
+
+  afterEach(() => {
+    resetMapperConfig();
+  });
+
+  it('should convert names between case styles', () => {
+    expect(NamingStrategies.snakeCase('fullName')).toBe('full_name');
+    expect(NamingStrategies.snakeCase('HTTPStatusCode')).toBe('http_status_code');
+    expect(NamingStrategies.kebabCase('full_name')).toBe('full-name');
+    expect(NamingStrategies.camelCase('full-name')).toBe('fullName');
+    expect(NamingStrategies.stripPrefix('_', 'm_')('m_name')).toBe('name');
+  });
+
+  it('should match snake_case sources with camelCase targets and back', () => {
+    const mapper = createMapperProxy(UserMapper);
+
+    const dto = mapper.toDto(row);
+    expect(dto).toBeInstanceOf(UserDto);
+    expect(dto).toEqual({ id: 1, fullName: 'Jane Doe', createdAt: new Date(1000) });
+
+    expect(mapper.toRow(dto)).toEqual(row);
+  });
+
+  it('should give explicit mappings priority over matched names', () => {
+    const dto = createMapperProxy(UserMapper).toDisplayDto({ ...row, display_name: 'Jane' });
+
+    expect(dto.fullName).toBe('Jane');
+    expect(dto.createdAt).toEqual(new Date(1000));
+  });
+
+  it('should apply method strategies in order', () => {
+    const legacy = Object.assign(new LegacyUser(), { m_Id: 7, m_FULLNAME: 'Legacy' });
+    const dto = createMapperProxy(UserMapper).fromLegacy(legacy);
+
+    expect(dto.id).toBe(7);
+    expect(dto.fullName).toBe('Legacy');
+  });
+
+  it('should match kebab-case keys', () => {
+    const headers = createMapperProxy(UserMapper).toHeaders({
+      'content-type': 'application/json',
+      'x-request-id': 'abc',
+    });
+
+    expect(headers).toEqual({ contentType: 'application/json', xRequestId: 'abc' });
+  });
+
+  it('should throw when several source keys match the same target', () => {
+    const map = () => createMapperProxy(UserMapper).toDto({ ...row, fullName: 'Other' } as UserRow);
+
+    expect(map).toThrow(MappingError);
+    expect(map).toThrow(
+      'Naming collision in UserMapper.toDto: source properties "full_name", "fullName" all match target property "fullName" under the naming strategy. Add an explicit @Mapping for "fullName".'
+    );
+  });
+
+  it('should apply the global naming strategy to mappers without their own', () => {
+    expect(createMapperProxy(PlainMapper).toDto(row).fullName).toBe('');
+
+    configureMapper({ namingStrategy: NamingStrategies.camelCase });
+
+    expect(createMapperProxy(PlainMapper).toDto(row).fullName).toBe('Jane Doe');
+  });
+});
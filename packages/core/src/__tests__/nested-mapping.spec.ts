@@ -0,0 +1,139 @@
+import { AutoMap, Mapper, Mapping, createMapperProxy, transform } from '../index';
+
+class AddressEntity {
+  street = '';
+  city = '';
+}
+
+class AddressDto {
+  line = '';
+  city = '';
+}
+
+class ProfileEntity {
+  biography = '';
+  avatar = '';
+}
+
+class ProfileDto {
+  bio = '';
+  avatar = '';
+}
+
+class UserEntity {
+  id = 0;
+  profile: ProfileEntity = new ProfileEntity();
+  address: AddressEntity = new AddressEntity();
+  metadata: Record<string, string> = {};
+}
+
+class UserDto {
+  id = 0;
+  profile: ProfileDto = new ProfileDto();
+  address: AddressDto = new AddressDto();
+  metadata: Record<string, string> = {};
+}
+
+class UserSummaryDto {
+  id = 0;
+  details: ProfileDto = new ProfileDto();
+}
+
+@Mapper()
+class ProfileMapper {
+  @Mapping({ source: 'biography', target: 'bio' })
+  toDto(profile: ProfileEntity): ProfileDto {
+    return transform(this, 'toDto', profile, ProfileDto);
+  }
+}
+
+@Mapper()
+abstract class AddressMapper {
+  @Mapping({ source: 'street', target: 'line' })
+  @AutoMap()
+  toDto(_address: AddressEntity): AddressDto {
+    return {} as AddressDto;
+  }
+}
+
+@Mapper({ uses: [ProfileMapper, AddressMapper] })
+class UserMapper {
+  toDto(entity: UserEntity): UserDto {
+    return transform(this, 'toDto', entity, UserDto);
+  }
+
+  @Mapping({ source: 'profile', target: 'details', using: 'ProfileMapper.toDto' })
+  toSummary(entity: UserEntity): UserSummaryDto {
+    return transform(this, 'toSummary', entity, UserSummaryDto);
+  }
+}
+
+function createUser(): UserEntity {
+  const entity = new UserEntity();
+  entity.id = 7;
+  entity.profile.biography = 'Developer';
+  entity.profile.avatar = 'me.png';
+  entity.address.street = 'Main St 1';
+  entity.address.city = 'Urumqi';
+  entity.metadata = { source: 'import' };
+  return entity;
+}
+
+describe('Nested mapper delegation', () => {
+  it('should convert nested properties through a matching method of the used mappers', () => {
+    const entity = createUser();
+    const dto = new UserMapper().toDto(entity);
+
+    expect(dto.profile).toBeInstanceOf(ProfileDto);
+    expect(dto.profile).toEqual({ bio: 'Developer', avatar: 'me.png' });
+    expect(dto.address).toBeInstanceOf(AddressDto);
+    expect(dto.address).toEqual({ line: 'Main St 1', city: 'Urumqi' });
+  });
+
+  it('should keep copying plain objects that no used mapper accepts', () => {
+    const entity = createUser();
+
+    expect(new UserMapper().toDto(entity).metadata).toBe(entity.metadata);
+  });
+
+  it('should convert through an explicit using reference', () => {
+    const summary = new UserMapper().toSummary(createUser());
+
+    expect(summary.details).toBeInstanceOf(ProfileDto);
+    expect(summary.details.bio).toBe('Developer');
+  });
+
+  it('should leave null nested values untouched', () => {
+    const entity = createUser();
+    entity.profile = null as any;
+
+    expect(new UserMapper().toDto(entity).profile).toBeNull();
+    expect(new UserMapper().toSummary(entity).details).toBeNull();
+  });
+
+  it('should resolve used mappers through the resolver given to createMapperProxy', () => {
+    const profileMapper = new ProfileMapper();
+    const toDto = jest.spyOn(profileMapper, 'toDto');
+    const mapper = createMapperProxy(UserMapper, {
+      resolveMapper: usedClass => (usedClass === ProfileMapper ? profileMapper : undefined),
+    });
+
+    mapper.toDto(createUser());
+
+    expect(toDto).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject using references to mappers that are not listed in uses', () => {
+    @Mapper()
+    class BrokenMapper {
+      @Mapping({ source: 'profile', target: 'details', using: 'ProfileMapper.toDto' })
+      toSummary(entity: UserEntity): UserSummaryDto {
+        return transform(this, 'toSummary', entity, UserSummaryDto);
+      }
+    }
+
+    expect(() => new BrokenMapper().toSummary(createUser())).toThrow(
+      'Mapper "ProfileMapper" referenced by BrokenMapper.toSummary (target: details) is not listed in @Mapper({ uses }).'
+    );
+  });
+});
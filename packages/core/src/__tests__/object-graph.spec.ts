@@ -0,0 +1,171 @@
+import {
+  AutoMap,
+  BeanMapping,
+  IterableMapping,
+  Mapper,
+  Mapping,
+  MappingError,
+  configureMapper,
+  createMapperProxy,
+  resetMapperConfig,
+} from '../index';
+
+class UserEntity {
+  id = 0;
+  name = '';
+  orders: OrderEntity[] = [];
+}
+
+class OrderEntity {
+  id = 0;
+  user?: UserEntity = undefined;
+}
+
+class UserDto {
+  id = 0;
+  name = '';
+  orders: OrderDto[] = [];
+}
+
+class OrderDto {
+  id = 0;
+  user?: UserDto = undefined;
+}
+
+@Mapper()
+class GraphMapper {
+  @Mapping({ source: 'orders', target: 'orders', using: 'toOrderDtos' })
+  @AutoMap()
+  toUserDto(_user: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+
+  @IterableMapping({ using: 'toOrderDto' })
+  @AutoMap()
+  toOrderDtos(_orders: OrderEntity[]): OrderDto[] {
+    return [] as OrderDto[];
+  }
+
+  @Mapping({ source: 'user', target: 'user', using: 'toUserDto' })
+  @AutoMap()
+  toOrderDto(_order: OrderEntity): OrderDto {
+    return {} as OrderDto;
+  }
+
+  @Mapping({ source: 'orders', target: 'orders', using: 'toOrderDtos' })
+  @BeanMapping({ allowCycles: false })
+  @AutoMap()
+  toStrictUserDto(_user: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+
+  @Mapping({ source: 'orders', target: 'orders', using: 'toOrderDtos' })
+  @BeanMapping({ maxDepth: 1 })
+  @AutoMap()
+  toShallowUserDto(_user: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+}
+
+class TransferEntity {
+  sender?: UserEntity = undefined;
+  recipient?: UserEntity = undefined;
+}
+
+class TransferDto {
+  sender?: UserDto = undefined;
+  recipient?: UserDto = undefined;
+}
+
+@Mapper()
+class TransferMapper {
+  @Mapping({ source: 'sender', target: 'sender', using: 'toFull' })
+  @Mapping({ source: 'recipient', target: 'recipient', using: 'toPublic' })
+  @AutoMap()
+  toDto(_transfer: TransferEntity): TransferDto {
+    return {} as TransferDto;
+  }
+
+  @Mapping({ target: 'orders', ignore: true })
+  @AutoMap()
+  toFull(_user: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+
+  @Mapping({ target: 'name', ignore: true })
+  @Mapping({ target: 'orders', ignore: true })
+  @AutoMap()
+  toPublic(_user: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+}
+
+describe('Object graphs', () => {
+  const createUser = () => {
+    const user = Object.assign(new UserEntity(), { id: 1, name: 'Jane' });
+    user.orders = [1, 2].map(id => Object.assign(new OrderEntity(), { id, user }));
+    return user;
+  };
+
+  afterEach(() => {
+    resetMapperConfig();
+  });
+
+  it('should map a source referenced twice to the same target instance', () => {
+    const dto = createMapperProxy(GraphMapper).toUserDto(createUser());
+
+    expect(dto.orders.map(order => order.id)).toEqual([1, 2]);
+    expect(dto.orders[0].user).toBe(dto);
+    expect(dto.orders[1].user).toBe(dto);
+  });
+
+  it('should share the identity map between the elements of a collection mapping', () => {
+    const user = createUser();
+    const orders = createMapperProxy(GraphMapper).toOrderDtos(user.orders);
+
+    expect(orders[0].user).toBeInstanceOf(UserDto);
+    expect(orders[0].user).toBe(orders[1].user);
+    expect(orders[0].user!.orders[0]).toBe(orders[0]);
+  });
+
+  it('should keep the targets of different methods mapping the same source apart', () => {
+    const user = createUser();
+    const transfer = Object.assign(new TransferEntity(), { sender: user, recipient: user });
+    const dto = createMapperProxy(TransferMapper).toDto(transfer);
+
+    expect(dto.sender).toMatchObject({ id: 1, name: 'Jane' });
+    expect(dto.recipient).toMatchObject({ id: 1, name: '' });
+    expect(dto.recipient).not.toBe(dto.sender);
+  });
+
+  it('should start a new identity map for every top-level call', () => {
+    const mapper = createMapperProxy(GraphMapper);
+    const user = createUser();
+
+    expect(mapper.toUserDto(user)).not.toBe(mapper.toUserDto(user));
+  });
+
+  it('should throw a MappingError naming the cyclic path when cycles are not allowed', () => {
+    const mapper = createMapperProxy(GraphMapper);
+    const map = () => mapper.toStrictUserDto(createUser());
+
+    expect(map).toThrow(MappingError);
+    expect(map).toThrow(
+      'Cyclic reference in GraphMapper.toStrictUserDto: "orders[0].user" refers back to the top-level source. Allow cycles to map it to the same target instance, or stop before it with maxDepth.'
+    );
+  });
+
+  it('should not map nested objects beyond maxDepth', () => {
+    const dto = createMapperProxy(GraphMapper).toShallowUserDto(createUser());
+
+    expect(dto.orders).toHaveLength(2);
+    expect(dto.orders[0]).toBeInstanceOf(OrderDto);
+    expect(dto.orders[0].user).toBeUndefined();
+  });
+
+  it('should apply the global object graph options', () => {
+    configureMapper({ maxDepth: 0 });
+
+    expect(createMapperProxy(GraphMapper).toUserDto(createUser()).orders).toEqual([]);
+  });
+});
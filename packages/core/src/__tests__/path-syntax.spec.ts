@@ -0,0 +1,94 @@
+import { AutoMap, Mapper, Mapping, MappingError, createMapperProxy } from '../index';
+
+class OrderEntity {
+  items = [{ sku: 'A-1' }, { sku: 'B-2' }];
+  addresses: Array<{ city: string }> | null = [{ city: 'Urumqi' }, { city: 'Kashgar' }];
+  meta: Record<string, string> = { 'content.type': 'application/json' };
+}
+
+class OrderDto {
+  firstSku = '';
+  cities: string[] | undefined = [];
+  contentType = '';
+  contact: any = undefined;
+  headers: Record<string, string> = {};
+  name = 'Jane';
+}
+
+@Mapper()
+class OrderMapper {
+  @Mapping({ source: 'items[0].sku', target: 'firstSku' })
+  @Mapping({ source: 'addresses[*].city', target: 'cities' })
+  @Mapping({ source: "meta['content.type']", target: 'contentType' })
+  @Mapping({ source: 'items[1].sku', target: 'contact.phones[1]' })
+  @Mapping({ source: "meta['content.type']", target: "headers['content.type']" })
+  @AutoMap()
+  toDto(_order: OrderEntity): OrderDto {
+    return {} as OrderDto;
+  }
+
+  @Mapping({ source: 'items[0].sku', target: 'name.first' })
+  @AutoMap()
+  toBrokenDto(_order: OrderEntity): OrderDto {
+    return {} as OrderDto;
+  }
+}
+
+describe('Path syntax', () => {
+  it('should read array indices, wildcards and quoted property names', () => {
+    const dto = createMapperProxy(OrderMapper).toDto(new OrderEntity());
+
+    expect(dto.firstSku).toBe('A-1');
+    expect(dto.cities).toEqual(['Urumqi', 'Kashgar']);
+    expect(dto.contentType).toBe('application/json');
+  });
+
+  it('should read undefined through a wildcard over a missing collection', () => {
+    const order = Object.assign(new OrderEntity(), { addresses: null });
+
+    expect(createMapperProxy(OrderMapper).toDto(order).cities).toBeUndefined();
+  });
+
+  it('should create missing intermediate arrays before indices and objects before names', () => {
+    const dto = createMapperProxy(OrderMapper).toDto(new OrderEntity());
+
+    expect(dto.contact).toEqual({ phones: [undefined, 'B-2'] });
+    expect(Array.isArray(dto.contact.phones)).toBe(true);
+    expect(dto.headers).toEqual({ 'content.type': 'application/json' });
+  });
+
+  it('should throw a MappingError when writing through a primitive value', () => {
+    const map = () => createMapperProxy(OrderMapper).toBrokenDto(new OrderEntity());
+
+    expect(map).toThrow(MappingError);
+    expect(map).toThrow('Cannot write to "name.first": "name" is a string, not an object.');
+  });
+
+  it('should reject malformed paths when the decorator is applied', () => {
+    const decorate = (options: { source: string; target: string }) => () => {
+      class InvalidMapper {
+        @Mapping(options)
+        toDto(_order: OrderEntity): OrderDto {
+          return {} as OrderDto;
+        }
+      }
+      return InvalidMapper;
+    };
+
+    expect(decorate({ source: 'items..sku', target: 'firstSku' })).toThrow(
+      'Invalid @Mapping on InvalidMapper.toDto (target: firstSku): Malformed path "items..sku": expected a property name at position 6.'
+    );
+    expect(decorate({ source: 'items[first]', target: 'firstSku' })).toThrow(
+      `Malformed path "items[first]": expected an index, '*' or a quoted property name at position 6.`
+    );
+    expect(decorate({ source: "meta['content.type]", target: 'contentType' })).toThrow(
+      `Malformed path "meta['content.type]": unterminated quoted property name`
+    );
+    expect(decorate({ source: 'items[0]sku', target: 'firstSku' })).toThrow(
+      `Malformed path "items[0]sku": expected '.' or '[' at position 8.`
+    );
+    expect(decorate({ source: 'items[*].sku', target: 'skus[*]' })).toThrow(
+      'Invalid @Mapping on InvalidMapper.toDto (target: skus[*]): wildcards are only supported in source paths.'
+    );
+  });
+});
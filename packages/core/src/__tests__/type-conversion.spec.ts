@@ -0,0 +1,158 @@
+import {
+  AutoMap,
+  Mapper,
+  Mapping,
+  MappingError,
+  NOT_CONVERTIBLE,
+  createMapperProxy,
+  registerConversion,
+  resetConversions,
+  transform,
+} from '../index';
+
+class Money {
+  constructor(
+    public readonly amount: number,
+    public readonly currency: string
+  ) {}
+}
+
+class OrderEntity {
+  id = 0n;
+  createdAt = new Date(0);
+  shippedAt = new Date(0);
+  total = '';
+  paid = false;
+  express = false;
+  quantity = '';
+  price = new Money(0, 'EUR');
+}
+
+class OrderDto {
+  id = '';
+  createdAt = '';
+  shippedOn = '';
+  total = 0;
+  paid = '';
+  express = '';
+  quantity = 0;
+  price = '';
+  amount = '';
+}
+
+class OrderForm {
+  createdAt = '';
+  shippedOn = '';
+  total = '';
+}
+
+class OrderUpdate {
+  createdAt = new Date(0);
+  shippedAt = new Date(0);
+  total = 0;
+}
+
+@Mapper()
+class OrderMapper {
+  @Mapping({ source: 'shippedAt', target: 'shippedOn', dateFormat: 'dd.MM.yyyy' })
+  @Mapping({ source: 'express', target: 'express', booleanFormat: 'Y/N' })
+  @Mapping({ source: 'price.amount', target: 'amount', numberFormat: '#,##0.00' })
+  toDto(entity: OrderEntity): OrderDto {
+    return transform(this, 'toDto', entity, OrderDto);
+  }
+
+  @Mapping({ source: 'shippedOn', target: 'shippedAt', dateFormat: 'dd.MM.yyyy' })
+  @AutoMap()
+  toUpdate(_form: OrderForm): OrderUpdate {
+    return {} as OrderUpdate;
+  }
+}
+
+describe('Type conversions', () => {
+  const entity = Object.assign(new OrderEntity(), {
+    id: 9007199254740993n,
+    createdAt: new Date('2024-03-05T10:20:30.000Z'),
+    shippedAt: new Date('2024-03-07T00:00:00.000Z'),
+    total: '199.90',
+    paid: true,
+    express: true,
+    quantity: '3',
+    price: new Money(1234.5, 'EUR'),
+  });
+
+  afterEach(() => {
+    resetConversions();
+  });
+
+  it('should convert auto-matched properties with mismatched types', () => {
+    const dto = new OrderMapper().toDto(entity);
+
+    expect(dto.id).toBe('9007199254740993');
+    expect(dto.createdAt).toBe('2024-03-05T10:20:30.000Z');
+    expect(dto.total).toBe(199.9);
+    expect(dto.paid).toBe('true');
+  });
+
+  it('should throw a MappingError for auto-matched values that cannot be converted', () => {
+    const invalid = Object.assign(new OrderEntity(), entity, { quantity: 'many' });
+
+    expect(() => new OrderMapper().toDto(invalid)).toThrow(
+      new MappingError('Cannot convert "many" to Number for "quantity".', ['quantity'])
+    );
+  });
+
+  it('should throw a MappingError for explicit fields that cannot be converted', () => {
+    const form = Object.assign(new OrderForm(), { shippedOn: '2024-03-07', total: '42' });
+
+    let error: unknown;
+    try {
+      createMapperProxy(OrderMapper).toUpdate(form);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(MappingError);
+    expect((error as MappingError).message).toBe(
+      'Cannot convert "2024-03-07" to Date for "shippedAt".'
+    );
+    expect((error as MappingError).fields).toEqual(['shippedAt']);
+  });
+
+  it('should apply @Mapping formats to explicit fields', () => {
+    const dto = new OrderMapper().toDto(entity);
+
+    expect(dto.shippedOn).toBe('07.03.2024');
+    expect(dto.express).toBe('Y');
+    expect(dto.amount).toBe('1,234.50');
+  });
+
+  it('should parse strings back with the same formats', () => {
+    const form = Object.assign(new OrderForm(), {
+      createdAt: '2024-03-05T10:20:30.000Z',
+      shippedOn: '07.03.2024',
+      total: '42',
+    });
+    const update = createMapperProxy(OrderMapper).toUpdate(form);
+
+    expect(update.createdAt).toEqual(new Date('2024-03-05T10:20:30.000Z'));
+    expect(update.shippedAt).toEqual(new Date('2024-03-07T00:00:00.000Z'));
+    expect(update.total).toBe(42);
+  });
+
+  it('should use globally registered conversions', () => {
+    registerConversion(Money, String, (money: Money) => `${money.amount} ${money.currency}`);
+    registerConversion(String, Number, (text: string) =>
+      text === 'many' ? 99 : text === 'none' ? NOT_CONVERTIBLE : Number(text)
+    );
+
+    const dto = new OrderMapper().toDto(
+      Object.assign(new OrderEntity(), entity, { quantity: 'many' })
+    );
+
+    expect(dto.price).toBe('1234.5 EUR');
+    expect(dto.quantity).toBe(99);
+    expect(() =>
+      new OrderMapper().toDto(Object.assign(new OrderEntity(), entity, { quantity: 'none' }))
+    ).toThrow('Cannot convert "none" to Number for "quantity".');
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  BeanMapping,
+  Mapper,
+  Mapping,
+  MappingError,
+  configureMapper,
+  resetMapperConfig,
+  transform,
+} from '../index';
+
+class CustomerEntity {
+  id = 0;
+  fullName = '';
+  emailAddress = '';
+  internalNote = '';
+}
+
+class CustomerDto {
+  id = 0;
+  name = '';
+  email = '';
+
+  get label(): string {
+    return `#${this.id}`;
+  }
+
+  describe(): string {
+    return this.name;
+  }
+}
+
+function createCustomer(): CustomerEntity {
+  return Object.assign(new CustomerEntity(), {
+    id: 1,
+    fullName: 'Jane',
+    emailAddress: 'jane@example.com',
+    internalNote: 'vip',
+  });
+}
+
+@Mapper()
+class DefaultMapper {
+  @Mapping({ source: 'fullName', target: 'name' })
+  toDto(entity: CustomerEntity): CustomerDto {
+    return transform(this, 'toDto', entity, CustomerDto);
+  }
+}
+
+@Mapper({ unmappedTargetPolicy: 'error', unmappedSourcePolicy: 'warn' })
+class StrictMapper {
+  @Mapping({ source: 'fullName', target: 'name' })
+  toDto(entity: CustomerEntity): CustomerDto {
+    return transform(this, 'toDto', entity, CustomerDto);
+  }
+
+  @Mapping({ source: 'fullName', target: 'name' })
+  @Mapping({ source: 'emailAddress', target: 'email' })
+  @BeanMapping({ ignoreUnmappedSourceProperties: ['internalNote'] })
+  toCompleteDto(entity: CustomerEntity): CustomerDto {
+    return transform(this, 'toCompleteDto', entity, CustomerDto);
+  }
+
+  @Mapping({ source: 'fullName', target: 'name' })
+  @BeanMapping({ unmappedTargetPolicy: 'ignore', unmappedSourcePolicy: 'ignore' })
+  toLenientDto(entity: CustomerEntity): CustomerDto {
+    return transform(this, 'toLenientDto', entity, CustomerDto);
+  }
+}
+
+describe('Unmapped property policies', () => {
+  const logger = { warn: jest.fn() };
+
+  beforeEach(() => {
+    logger.warn.mockClear();
+    configureMapper({ logger });
+  });
+
+  afterEach(() => {
+    resetMapperConfig();
+  });
+
+  it('should ignore unmapped properties by default', () => {
+    expect(() => new DefaultMapper().toDto(createCustomer())).not.toThrow();
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should list exactly the target properties that got no value', () => {
+    expect(() => new StrictMapper().toDto(createCustomer())).toThrow(
+      new MappingError('Unmapped target properties in StrictMapper.toDto: email')
+    );
+
+    try {
+      new StrictMapper().toDto(createCustomer());
+    } catch (error) {
+      expect((error as MappingError).fields).toEqual(['email']);
+    }
+  });
+
+  it('should warn about source properties that were never read', () => {
+    new StrictMapper().toCompleteDto(createCustomer());
+
+    expect(logger.warn).not.toHaveBeenCalled();
+
+    const entity = Object.assign(createCustomer(), { legacyCode: 'X1' });
+    new StrictMapper().toCompleteDto(entity);
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Unmapped source properties in StrictMapper.toCompleteDto: legacyCode'
+    );
+  });
+
+  it('should log each distinct warning once', () => {
+    const mapper = new StrictMapper();
+    for (let i = 0; i < 3; i++) {
+      mapper.toCompleteDto(Object.assign(createCustomer(), { legacyCode: 'X1' }));
+    }
+    mapper.toCompleteDto(Object.assign(createCustomer(), { legacyId: 7 }));
+
+    expect(logger.warn.mock.calls).toEqual([
+      ['Unmapped source properties in StrictMapper.toCompleteDto: legacyCode'],
+      ['Unmapped source properties in StrictMapper.toCompleteDto: legacyId'],
+    ]);
+  });
+
+  it('should let method options override mapper options', () => {
+    expect(() => new StrictMapper().toLenientDto(createCustomer())).not.toThrow();
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should apply the global policies to mappers without their own', () => {
+    configureMapper({ unmappedTargetPolicy: 'warn', unmappedSourcePolicy: 'error' });
+
+    expect(() => new DefaultMapper().toDto(createCustomer())).toThrow(
+      'Unmapped source properties in DefaultMapper.toDto: emailAddress, internalNote'
+    );
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Unmapped target properties in DefaultMapper.toDto: email'
+    );
+  });
+});
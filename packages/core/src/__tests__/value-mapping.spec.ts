@@ -0,0 +1,155 @@
+import {
+  AutoMap,
+  EnumMapping,
+  Mapper,
+  Mapping,
+  MappingConstants,
+  MappingError,
+  ValueMapping,
+  createMapperProxy,
+  mapValue,
+  transform,
+} from '../index';
+
+enum UserStatus {
+  Active = 'ACTIVE',
+  Inactive = 'INACTIVE',
+  Unknown = 'UNKNOWN',
+}
+
+enum DbUserStatus {
+  Active = 1,
+  Inactive = 2,
+  Locked = 3,
+}
+
+enum Role {
+  Admin = 'admin',
+  Member = 'member',
+  Guest = 'guest',
+}
+
+enum RoleDto {
+  Admin = 'ADMIN',
+  Member = 'MEMBER',
+  Visitor = 'VISITOR',
+}
+
+class UserEntity {
+  statusCode = '';
+  dbStatus = DbUserStatus.Active;
+}
+
+class UserDto {
+  status = UserStatus.Unknown;
+  state = UserStatus.Unknown;
+}
+
+@Mapper()
+class StatusMapper {
+  @ValueMapping({ source: 'A', target: UserStatus.Active })
+  @ValueMapping({ source: 'I', target: UserStatus.Inactive })
+  @ValueMapping({ source: MappingConstants.NULL, target: UserStatus.Unknown })
+  @ValueMapping({ source: 'X', target: MappingConstants.THROW })
+  toStatus(code: string | null): UserStatus {
+    return mapValue(this, 'toStatus', code);
+  }
+
+  @EnumMapping({ sourceEnum: DbUserStatus, targetEnum: UserStatus })
+  @ValueMapping({ source: MappingConstants.ANY_REMAINING, target: UserStatus.Inactive })
+  @AutoMap()
+  fromDbStatus(_status: DbUserStatus): UserStatus {
+    return {} as UserStatus;
+  }
+
+  @EnumMapping({ sourceEnum: Role, targetEnum: RoleDto })
+  @ValueMapping({ source: Role.Guest, target: RoleDto.Visitor })
+  @AutoMap()
+  toRoleDto(_role: Role): RoleDto {
+    return {} as RoleDto;
+  }
+
+  @Mapping({ source: 'statusCode', target: 'status', values: { A: UserStatus.Active } })
+  @Mapping({
+    source: 'dbStatus',
+    target: 'state',
+    values: {
+      [DbUserStatus.Active]: UserStatus.Active,
+      [MappingConstants.ANY_UNMAPPED]: MappingConstants.NULL,
+    },
+  })
+  toDto(entity: UserEntity): UserDto {
+    return transform(this, 'toDto', entity, UserDto);
+  }
+}
+
+describe('Value mapping', () => {
+  it('should map values with @ValueMapping', () => {
+    const mapper = new StatusMapper();
+
+    expect(mapper.toStatus('A')).toBe(UserStatus.Active);
+    expect(mapper.toStatus('I')).toBe(UserStatus.Inactive);
+    expect(mapper.toStatus(null)).toBe(UserStatus.Unknown);
+  });
+
+  it('should throw for THROW targets and unmapped values', () => {
+    const mapper = new StatusMapper();
+
+    expect(() => mapper.toStatus('X')).toThrow(
+      new MappingError('Value "X" cannot be mapped by StatusMapper.toStatus.')
+    );
+    expect(() => mapper.toStatus('Z')).toThrow(
+      'Unmapped value "Z" in StatusMapper.toStatus. Add a @ValueMapping for it or a MappingConstants.ANY_REMAINING fallback.'
+    );
+  });
+
+  it('should auto-implement enum-to-enum methods by member name', () => {
+    const mapper = createMapperProxy(StatusMapper);
+
+    expect(mapper.fromDbStatus(DbUserStatus.Active)).toBe(UserStatus.Active);
+    expect(mapper.fromDbStatus(DbUserStatus.Locked)).toBe(UserStatus.Inactive);
+    expect(mapper.toRoleDto(Role.Member)).toBe(RoleDto.Member);
+    expect(mapper.toRoleDto(Role.Guest)).toBe(RoleDto.Visitor);
+  });
+
+  it('should apply value maps on @Mapping', () => {
+    const entity = Object.assign(new UserEntity(), {
+      statusCode: 'A',
+      dbStatus: DbUserStatus.Locked,
+    });
+    const dto = new StatusMapper().toDto(entity);
+
+    expect(dto.status).toBe(UserStatus.Active);
+    expect(dto.state).toBeNull();
+  });
+
+  it('should name the target property when a value map on @Mapping fails', () => {
+    const entity = Object.assign(new UserEntity(), { statusCode: 'Z' });
+    let error: unknown;
+    try {
+      new StatusMapper().toDto(entity);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(MappingError);
+    expect((error as MappingError).fields).toEqual(['status']);
+  });
+
+  it('should reject enum mappings that leave source members unmapped at startup', () => {
+    const defineMapper = () => {
+      @Mapper()
+      class IncompleteMapper {
+        @EnumMapping({ sourceEnum: Role, targetEnum: RoleDto })
+        toRoleDto(_role: Role): RoleDto {
+          return {} as RoleDto;
+        }
+      }
+      return IncompleteMapper;
+    };
+
+    expect(defineMapper).toThrow(
+      'Incomplete value mapping in IncompleteMapper.toRoleDto: source enum members Guest are not mapped. Add @ValueMapping entries for them or a MappingConstants.ANY_REMAINING fallback.'
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { isPromiseLike, mapConcurrent } from './promise';
+
+/**
+ * Collection shapes supported by collection mapping
+ */
+export type CollectionKind = 'array' | 'set' | 'map';
+
+/**
+ * Collection produced by collection mapping
+ */
+export type Collection = unknown[] | Set<unknown> | Map<unknown, unknown>;
+
+/**
+ * Collection kind of a runtime value, undefined for anything that is not an array, Set or Map
+ */
+export function getCollectionKind(value: unknown): CollectionKind | undefined {
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Set) return 'set';
+  if (value instanceof Map) return 'map';
+  return undefined;
+}
+
+/**
+ * Collection kind of a constructor, e.g. from design:type or design:returntype metadata
+ */
+export function getCollectionKindOfType(type: unknown): CollectionKind | undefined {
+  if (type === Array) return 'array';
+  if (type === Set) return 'set';
+  if (type === Map) return 'map';
+  return undefined;
+}
+
+export function createEmptyCollection(kind: CollectionKind): Collection {
+  if (kind === 'set') return new Set();
+  if (kind === 'map') return new Map();
+  return [];
+}
+
+/**
+ * First element (Map: first value) that is neither null nor undefined
+ */
+export function findFirstElement(collection: Iterable<unknown>): unknown {
+  const values: Iterable<unknown> = collection instanceof Map ? collection.values() : collection;
+  for (const value of values) {
+    if (value !== null && value !== undefined) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Maps one element of a collection; key is the Map key or the position of the element
+ */
+export type ElementMapper = (element: unknown, key: unknown) => unknown;
+
+/**
+ * Map every element of a collection into a new collection of the given kind.
+ * Map keys are kept and only values are mapped; null and undefined elements are kept as-is.
+ */
+export function mapCollection(
+  collection: Iterable<unknown>,
+  mapElement: ElementMapper,
+  kind: CollectionKind = getCollectionKind(collection) ?? 'array'
+): Collection {
+  const mapValue = (value: unknown, key: unknown) =>
+    value === null || value === undefined ? value : mapElement(value, key);
+
+  if (collection instanceof Map) {
+    if (kind === 'map') {
+      return new Map(Array.from(collection, ([key, value]) => [key, mapValue(value, key)]));
+    }
+    const values = Array.from(collection, ([key, value]) => mapValue(value, key));
+    return kind === 'set' ? new Set(values) : values;
+  }
+
+  const values = Array.from(collection, mapValue);
+  if (kind === 'set') return new Set(values);
+  if (kind === 'map') return new Map(values.map((value, index) => [index, value]));
+  return values;
+}
+
+/**
+ * Async variant of mapCollection(): awaits the mapped elements, with at most `concurrency`
+ * elements being mapped at a time
+ */
+export async function mapCollectionAsync(
+  collection: Iterable<unknown>,
+  mapElement: ElementMapper,
+  kind: CollectionKind = getCollectionKind(collection) ?? 'array',
+  concurrency = Infinity
+): Promise<Collection> {
+  const entries: Array<[unknown, unknown]> =
+    collection instanceof Map
+      ? Array.from(collection)
+      : Array.from(collection, (value, index) => [index, value]);
+  const values = await mapConcurrent(
+    entries,
+    ([key, value]) => (value === null || value === undefined ? value : mapElement(value, key)),
+    concurrency
+  );
+
+  if (kind === 'map') return new Map(entries.map(([key], index) => [key, values[index]]));
+  return kind === 'set' ? new Set(values) : values;
+}
+
+/**
+ * Await the elements of a collection mapped by an async element method, which is a
+ * collection of promises. Other values are returned as they are.
+ */
+export function awaitElements(value: unknown): unknown {
+  const kind = getCollectionKind(value);
+  if (!kind) {
+    return value;
+  }
+
+  const entries: Array<[unknown, unknown]> =
+    value instanceof Map
+      ? Array.from(value)
+      : Array.from(value as Iterable<unknown>, (element, index) => [index, element]);
+  if (!entries.some(([, element]) => isPromiseLike(element))) {
+    return value;
+  }
+
+  return Promise.all(entries.map(([, element]) => element)).then(values => {
+    if (kind === 'map') return new Map(entries.map(([key], index) => [key, values[index]]));
+    return kind === 'set' ? new Set(values) : values;
+  });
+}
@@ -0,0 +1,58 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { MapperClass } from '../types/mapper.type';
+import { getDesignParamTypes } from './design-metadata';
+import { getValueType } from './type-conversion';
+
+/**
+ * Combined @Condition() methods of a mapper: false means the property is not written
+ */
+export type PropertyCondition = (value: unknown, input: unknown, mapper?: object) => boolean;
+
+/**
+ * Mapper instance whose condition methods are called by name
+ */
+type ConditionMethods = Record<string, (value: unknown, input: unknown) => boolean>;
+
+interface ConditionMethod {
+  method: string;
+  type: unknown;
+}
+
+/**
+ * Compile the @Condition() methods of a mapper class, or undefined when it has none.
+ * A condition method applies to the values of its first parameter type; methods whose
+ * parameter type is unknown or Object apply to every value.
+ */
+export function compilePropertyCondition(mapperClass: object): PropertyCondition | undefined {
+  const prototype = (mapperClass as MapperClass).prototype;
+  const conditions: ConditionMethod[] = metadataStorage
+    .getConditionMethods(mapperClass)
+    .map(method => ({ method, type: getDesignParamTypes(prototype, method)?.[0] }));
+
+  if (conditions.length === 0) {
+    return undefined;
+  }
+
+  return (value, input, mapper) => {
+    for (let i = 0; i < conditions.length; i++) {
+      const { method, type } = conditions[i];
+      if (appliesTo(type, value) && !(mapper as ConditionMethods)[method](value, input)) {
+        return false;
+      }
+    }
+    return true;
+  };
+}
+
+function appliesTo(type: unknown, value: unknown): boolean {
+  if (type === undefined || type === Object) {
+    return true;
+  }
+  if (value === null || value === undefined) {
+    return false;
+  }
+  return (
+    getValueType(value) === type ||
+    value instanceof (type as abstract new (...args: never[]) => unknown)
+  );
+}
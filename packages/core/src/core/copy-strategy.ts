@@ -0,0 +1,99 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { CopyStrategy } from '../types/mapper.type';
+import type { MappingOptions } from '../types/mapping.type';
+import { getMapperConfig } from './global-config';
+
+/**
+ * Copies a value before it is written to the target
+ */
+export type ValueCopier = (value: unknown) => unknown;
+
+/**
+ * Resolve the copy strategy of a mapping: field (@Mapping) over method (@BeanMapping)
+ * over mapper (@Mapper) over global config. Auto-matched properties have no field options.
+ */
+export function resolveCopyStrategy(
+  mapperClass: object,
+  method: string,
+  mapping?: MappingOptions
+): CopyStrategy {
+  return (
+    mapping?.copyStrategy ??
+    metadataStorage.getBeanMapping(mapperClass, method).copyStrategy ??
+    metadataStorage.getMapperOptions(mapperClass).copyStrategy ??
+    getMapperConfig().copyStrategy ??
+    'reference'
+  );
+}
+
+/**
+ * Copier of a strategy; undefined for 'reference', which writes values as they are
+ */
+export function compileCopier(strategy: CopyStrategy): ValueCopier | undefined {
+  if (strategy === 'shallow') {
+    return value => copyValue(value, false, new Map());
+  }
+  if (strategy === 'deep') {
+    return value => copyValue(value, true, new Map());
+  }
+  return undefined;
+}
+
+/**
+ * Copy a value, keeping its prototype. Deep copies copy nested values too, and an object
+ * referenced twice is copied once. Functions, promises, weak collections and objects with
+ * internal state that cannot be read, e.g. private class fields, are not copied correctly.
+ */
+function copyValue(value: unknown, deep: boolean, copies: Map<object, object>): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Promise || value instanceof WeakMap || value instanceof WeakSet) {
+    return value;
+  }
+
+  const existing = copies.get(value);
+  if (existing !== undefined) {
+    return existing;
+  }
+
+  const nested = (item: unknown) => (deep ? copyValue(item, deep, copies) : item);
+  let copy: object;
+
+  if (value instanceof Date) {
+    copy = new Date(value.getTime());
+  } else if (value instanceof RegExp) {
+    copy = new RegExp(value.source, value.flags);
+  } else if (ArrayBuffer.isView(value)) {
+    // Typed arrays and Node.js Buffers copy through from() of their own class
+    copy =
+      value instanceof DataView
+        ? new DataView(value.buffer.slice(0), value.byteOffset, value.byteLength)
+        : (value.constructor as unknown as { from(view: ArrayBufferView): object }).from(value);
+  } else if (value instanceof ArrayBuffer) {
+    copy = value.slice(0);
+  } else if (value instanceof Map) {
+    const map = new Map();
+    copies.set(value, map);
+    value.forEach((item, key) => map.set(nested(key), nested(item)));
+    copy = map;
+  } else if (value instanceof Set) {
+    const set = new Set();
+    copies.set(value, set);
+    value.forEach(item => set.add(nested(item)));
+    copy = set;
+  } else {
+    // Arrays, plain objects and class instances: own properties on an object with the same prototype
+    copy = Array.isArray(value) ? new Array(value.length) : {};
+    Object.setPrototypeOf(copy, Object.getPrototypeOf(value));
+    copies.set(value, copy);
+    for (const key of Reflect.ownKeys(value)) {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key) as PropertyDescriptor;
+      if ('value' in descriptor) descriptor.value = nested(descriptor.value);
+      Object.defineProperty(copy, key, descriptor);
+    }
+  }
+
+  copies.set(value, copy);
+  return copy;
+}
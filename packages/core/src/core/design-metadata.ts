@@ -0,0 +1,31 @@
+import 'reflect-metadata';
+
+/**
+ * Metadata API added to Reflect by reflect-metadata, which the application provides
+ */
+interface MetadataReflect {
+  getMetadata(key: string, target: object, propertyKey: string): unknown;
+}
+
+/**
+ * Type emitted by TypeScript (emitDecoratorMetadata) for a property ('design:type')
+ * or for the return value of a method ('design:returntype')
+ */
+export function getDesignType(
+  key: 'design:type' | 'design:returntype',
+  target: object,
+  propertyKey: string
+): unknown {
+  return (Reflect as unknown as MetadataReflect).getMetadata(key, target, propertyKey);
+}
+
+/**
+ * Parameter types emitted by TypeScript (emitDecoratorMetadata) for a method
+ */
+export function getDesignParamTypes(target: object, propertyKey: string): unknown[] | undefined {
+  return (Reflect as unknown as MetadataReflect).getMetadata(
+    'design:paramtypes',
+    target,
+    propertyKey
+  ) as unknown[] | undefined;
+}
@@ -0,0 +1,14 @@
+/**
+ * Error raised while mapping, naming the properties that caused it.
+ * cause is the error of a failed converter.
+ */
+export class MappingError extends Error {
+  constructor(
+    message: string,
+    public readonly fields: string[] = [],
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'MappingError';
+  }
+}
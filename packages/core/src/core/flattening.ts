@@ -0,0 +1,163 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import { getMapperConfig } from './global-config';
+import type { ValueCopier } from './copy-strategy';
+import { compileSetter, formatPath, Indexable, PathSetter } from './path-accessor';
+
+/**
+ * Returned by a flattened reader when no source path of the target property exists
+ */
+export const NO_FLATTENED_VALUE: unique symbol = Symbol('NO_FLATTENED_VALUE');
+
+/**
+ * Reads the source value of a flattened target property, e.g. 'profileBio' from 'profile.bio'.
+ * Returns the first-level source key that was read along with the value.
+ */
+export type FlattenedReader = (
+  input: unknown
+) => { key: string; value: unknown } | typeof NO_FLATTENED_VALUE;
+
+/**
+ * Writes flat source properties into the nested target object of a property,
+ * e.g. 'profileBio' into 'profile.bio', skipping null and undefined values when skipNull is set.
+ * Returns the source keys that were read.
+ */
+export type Unflattener = (input: unknown, output: object, skipNull: boolean) => string[];
+
+/**
+ * Whether a mapper method maps by flattening and unflattening conventions:
+ * method (@BeanMapping) over mapper (@Mapper) over global config
+ */
+export function resolveFlattening(mapperClass: object, method: string): boolean {
+  return (
+    metadataStorage.getBeanMapping(mapperClass, method).flattening ??
+    metadataStorage.getMapperOptions(mapperClass).flattening ??
+    getMapperConfig().flattening ??
+    false
+  );
+}
+
+/**
+ * Compile the reader of a flattened target property. Source paths with the shortest leading
+ * properties are tried first: 'profileAddressCity' tries 'profile.address.city', then
+ * 'profile.addressCity', then 'profileAddress.city'. Returns undefined for single-word keys.
+ */
+export function compileFlattenedReader(key: string): FlattenedReader | undefined {
+  const words = splitCamelCase(key);
+  if (words.length < 2) {
+    return undefined;
+  }
+
+  const paths = splitSegments(words).filter(path => path.length > 1);
+  return input => {
+    for (const path of paths) {
+      let current = input as Indexable;
+      let j = 0;
+      for (; j < path.length - 1; j++) {
+        current = current[path[j]] as Indexable;
+        if (current === null || typeof current !== 'object') break;
+      }
+      if (j === path.length - 1 && path[j] in current) {
+        return { key: path[0], value: current[path[j]] };
+      }
+    }
+    return NO_FLATTENED_VALUE;
+  };
+}
+
+/**
+ * Compile the unflattener of a target property whose initial value is an object, e.g.
+ * profile = new ProfileDto(). Its properties, recursively, are read from source keys
+ * prefixed with the property name ('profileBio' → 'profile.bio'), except explicit targets.
+ * Like explicit nested targets, missing intermediate objects are created as plain objects.
+ */
+export function compileUnflattener(
+  key: string,
+  sample: Indexable,
+  explicitTargets: Set<string>,
+  copy?: ValueCopier
+): Unflattener | undefined {
+  const leaves: Array<{ sourceKey: string; set: PathSetter }> = [];
+  collectLeaves(sample[key], [key], key, explicitTargets, leaves);
+  if (leaves.length === 0) {
+    return undefined;
+  }
+
+  return (input, output, skipNull) => {
+    const read: string[] = [];
+    for (const { sourceKey, set } of leaves) {
+      if (!Object.prototype.propertyIsEnumerable.call(input, sourceKey)) continue;
+      const value = (input as Indexable)[sourceKey];
+      read.push(sourceKey);
+      if (skipNull && (value === null || value === undefined)) continue;
+      set(output, copy ? copy(value) : value);
+    }
+    return read;
+  };
+}
+
+function collectLeaves(
+  nested: unknown,
+  path: string[],
+  sourceKey: string,
+  explicitTargets: Set<string>,
+  leaves: Array<{ sourceKey: string; set: PathSetter }>
+): void {
+  if (!isNestedObject(nested)) {
+    return;
+  }
+
+  for (const name of Object.keys(nested)) {
+    const childPath = [...path, name];
+    const childSourceKey = sourceKey + name.charAt(0).toUpperCase() + name.slice(1);
+    if (explicitTargets.has(formatPath(childPath))) continue;
+
+    const child = (nested as Indexable)[name];
+    if (isNestedObject(child)) {
+      collectLeaves(child, childPath, childSourceKey, explicitTargets, leaves);
+    } else {
+      leaves.push({ sourceKey: childSourceKey, set: compileSetter(formatPath(childPath)) });
+    }
+  }
+}
+
+function isNestedObject(value: unknown): value is object {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof Map) &&
+    !(value instanceof Set)
+  );
+}
+
+/**
+ * 'profileAddressCity' → ['profile', 'Address', 'City']
+ */
+function splitCamelCase(key: string): string[] {
+  return key.split(/(?=[A-Z])/);
+}
+
+/**
+ * Every split of words into consecutive segments, shortest leading segments first,
+ * as property names: [['profile', 'address', 'city'], ['profile', 'addressCity'], ...]
+ */
+function splitSegments(words: string[]): string[][] {
+  const result: string[][] = [];
+  for (let i = 1; i <= words.length; i++) {
+    const head = toPropertyName(words.slice(0, i));
+    if (i === words.length) {
+      result.push([head]);
+      continue;
+    }
+    for (const rest of splitSegments(words.slice(i))) {
+      result.push([head, ...rest]);
+    }
+  }
+  return result;
+}
+
+function toPropertyName(words: string[]): string {
+  const name = words.join('');
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
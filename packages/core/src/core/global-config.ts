@@ -0,0 +1,91 @@
+import type {
+  CopyStrategy,
+  NamingStrategy,
+  NullValuePropertyStrategy,
+  ReportingPolicy,
+} from '../types/mapper.type';
+import type { MappingTransformFn } from '../types/mapping.type';
+
+/**
+ * Receives mapping warnings, e.g. unmapped properties under the 'warn' policy,
+ * and debug messages when debug is enabled
+ */
+export interface MapperLogger {
+  warn(message: string): void;
+  debug?(message: string): void;
+}
+
+/**
+ * Defaults shared by every mapper, overridden by @Mapper() and method level options
+ */
+export interface GlobalMapperConfig {
+  unmappedTargetPolicy?: ReportingPolicy;
+  unmappedSourcePolicy?: ReportingPolicy;
+  nullValuePropertyStrategy?: NullValuePropertyStrategy;
+  /**
+   * Maximum number of elements mapped at a time by async collection mappings (default: unlimited)
+   */
+  concurrency?: number;
+  maxDepth?: number;
+  allowCycles?: boolean;
+  namingStrategy?: NamingStrategy;
+  flattening?: boolean;
+  copyStrategy?: CopyStrategy;
+  detectEmptyMethods?: boolean;
+  /**
+   * Named converters that @Mapping({ transform: 'name' }) of every mapper can reference.
+   * Converters of @Mapper({ converters }) take precedence.
+   */
+  converters?: Record<string, MappingTransformFn>;
+  /**
+   * Log the field mappings of every compiled mapping plan through logger.debug
+   */
+  debug?: boolean;
+  logger?: MapperLogger;
+}
+
+const consoleLogger: MapperLogger = {
+  // eslint-disable-next-line no-console
+  warn: message => console.warn(message),
+  // eslint-disable-next-line no-console
+  debug: message => console.debug(message),
+};
+
+let globalConfig: GlobalMapperConfig = {};
+let globalConfigRevision = 0;
+
+/**
+ * Merge options into the global mapper configuration.
+ * Compiled mapping plans pick up the change on their next use.
+ */
+export function configureMapper(config: GlobalMapperConfig): void {
+  const converters =
+    globalConfig.converters && config.converters
+      ? { ...globalConfig.converters, ...config.converters }
+      : (config.converters ?? globalConfig.converters);
+  globalConfig = { ...globalConfig, ...config, converters };
+  globalConfigRevision++;
+}
+
+/**
+ * Restore the default global mapper configuration
+ */
+export function resetMapperConfig(): void {
+  globalConfig = {};
+  globalConfigRevision++;
+}
+
+export function getMapperConfig(): Readonly<GlobalMapperConfig> {
+  return globalConfig;
+}
+
+/**
+ * Revision counter, bumped on every configuration change
+ */
+export function getMapperConfigVersion(): number {
+  return globalConfigRevision;
+}
+
+export function getMapperLogger(): MapperLogger {
+  return globalConfig.logger || consoleLogger;
+}
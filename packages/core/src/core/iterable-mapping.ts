@@ -0,0 +1,238 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { MapperClass } from '../types/mapper.type';
+import type { IterableMappingOptions } from '../types/mapping.type';
+import {
+  Collection,
+  createEmptyCollection,
+  ElementMapper,
+  getCollectionKind,
+  getCollectionKindOfType,
+  mapCollection,
+  mapCollectionAsync,
+} from './collection';
+import { getDesignType } from './design-metadata';
+import { getMapperConfig } from './global-config';
+import {
+  createCollectionScope,
+  getElementScope,
+  getMappingScope,
+  resolveObjectGraphOptions,
+  runInScope,
+} from './mapping-scope';
+import { transform, transformAsync } from './transformer';
+
+/**
+ * How a single element of a collection method is mapped
+ */
+interface ElementStrategy {
+  method?: string;
+  elementType?: new () => unknown;
+}
+
+/**
+ * Mapper instance whose element method is called by name
+ */
+type MapperMethods = Record<string, (element: unknown) => unknown>;
+
+// Collection method names derived from a single-element method, e.g. toDtoList -> toDto.
+// Plural names (toDtos) are not matched, since toStatus or toAddress are not collections;
+// they need @IterableMapping.
+const COLLECTION_SUFFIX = /(List|Array|Set|Map|Collection)$/;
+
+let strategyCache = new WeakMap<object, Map<string, ElementStrategy>>();
+let strategyCacheVersion = metadataStorage.version;
+
+/**
+ * Map an array, Set or Map with the element mapping of mapper[method].
+ *
+ * Elements are mapped by the @IterableMapping({ using }) method, else by a sibling method
+ * returning @IterableMapping({ elementType }), else by the sibling method named after the
+ * collection method (toDtoList -> toDto), else by transform() into elementType.
+ * The result has the kind of the declared return type, or the kind of the input.
+ */
+export function transformIterable<TOutput = Collection>(
+  mapper: object,
+  method: string,
+  input: Iterable<unknown> | null | undefined
+): TOutput {
+  const options = metadataStorage.getIterableMapping(mapper.constructor, method) || {};
+  const returnType = getDesignType('design:returntype', mapper, method);
+  const kind = getCollectionKindOfType(returnType) ?? getCollectionKind(input) ?? 'array';
+
+  if (input === null || input === undefined) {
+    return (options.nullValue === 'empty' ? createEmptyCollection(kind) : input) as TOutput;
+  }
+
+  const mapElement = compileElementMapper(mapper, method, options, transform);
+  return mapCollection(input, inElementScope(mapper, method, mapElement), kind) as TOutput;
+}
+
+/**
+ * Async variant of transformIterable(): element mappings may return promises, which are
+ * awaited with at most @IterableMapping({ concurrency }) (else the global concurrency)
+ * elements in flight. Resolves to the kind of the input when the return type is a Promise.
+ */
+export async function transformIterableAsync<TOutput = Collection>(
+  mapper: object,
+  method: string,
+  input: Iterable<unknown> | null | undefined
+): Promise<TOutput> {
+  const options = metadataStorage.getIterableMapping(mapper.constructor, method) || {};
+  const returnType = getDesignType('design:returntype', mapper, method);
+  const kind = getCollectionKindOfType(returnType) ?? getCollectionKind(input) ?? 'array';
+
+  if (input === null || input === undefined) {
+    return (options.nullValue === 'empty' ? createEmptyCollection(kind) : input) as TOutput;
+  }
+
+  const mapElement = compileElementMapper(mapper, method, options, transformAsync);
+  const concurrency = options.concurrency ?? getMapperConfig().concurrency;
+  return mapCollectionAsync(
+    input,
+    inElementScope(mapper, method, mapElement),
+    kind,
+    concurrency
+  ) as Promise<TOutput>;
+}
+
+/**
+ * Mapping of a single element: the element method, or transform() / transformAsync() into
+ * the element type
+ */
+function compileElementMapper(
+  mapper: object,
+  method: string,
+  options: IterableMappingOptions,
+  transformElement: typeof transform | typeof transformAsync
+): (element: unknown) => unknown {
+  const { method: elementMethod, elementType } = getElementStrategy(
+    mapper.constructor,
+    method,
+    options
+  );
+  return elementMethod
+    ? element => (mapper as MapperMethods)[elementMethod](element)
+    : element => transformElement(mapper, method, element, elementType as new () => unknown);
+}
+
+/**
+ * Map each element in its own scope, e.g. orders[0], so that the elements share the
+ * identity map of the enclosing mapping, or of the collection mapping when called directly
+ */
+function inElementScope(
+  mapper: object,
+  method: string,
+  mapElement: (element: unknown) => unknown
+): ElementMapper {
+  const scope =
+    getMappingScope() ??
+    createCollectionScope(
+      `${mapper.constructor.name}.${method}`,
+      resolveObjectGraphOptions(mapper.constructor, method)
+    );
+  return (element, key) => runInScope(getElementScope(scope, key), () => mapElement(element));
+}
+
+/**
+ * Whether createMapperProxy should auto-implement mapper[method] as a collection mapping
+ */
+export function isIterableMethod(
+  mapperClass: object,
+  method: string,
+  returnType: unknown,
+  input: unknown
+): boolean {
+  if (metadataStorage.getIterableMapping(mapperClass, method)) {
+    return true;
+  }
+  if (returnType) {
+    return getCollectionKindOfType(returnType) !== undefined;
+  }
+  // Without emitted metadata, only a collection-like name with a sibling method qualifies
+  return (
+    (input === null || input === undefined || getCollectionKind(input) !== undefined) &&
+    findSiblingByName(mapperClass, method) !== undefined
+  );
+}
+
+function getElementStrategy(
+  mapperClass: object,
+  method: string,
+  options: IterableMappingOptions
+): ElementStrategy {
+  if (strategyCacheVersion !== metadataStorage.version) {
+    strategyCache = new WeakMap();
+    strategyCacheVersion = metadataStorage.version;
+  }
+
+  let strategies = strategyCache.get(mapperClass);
+  if (!strategies) {
+    strategies = new Map();
+    strategyCache.set(mapperClass, strategies);
+  }
+
+  let strategy = strategies.get(method);
+  if (!strategy) {
+    strategy = resolveElementStrategy(mapperClass as MapperClass, method, options);
+    strategies.set(method, strategy);
+  }
+
+  return strategy;
+}
+
+function resolveElementStrategy(
+  mapperClass: MapperClass,
+  method: string,
+  options: IterableMappingOptions
+): ElementStrategy {
+  if (options.using) {
+    if (typeof mapperClass.prototype[options.using] !== 'function') {
+      throw new Error(
+        `Element method "${options.using}" referenced by ${mapperClass.name}.${method} does not exist.`
+      );
+    }
+    return { method: options.using };
+  }
+
+  const sibling =
+    (options.elementType && findSiblingByReturnType(mapperClass, method, options.elementType)) ||
+    findSiblingByName(mapperClass, method);
+  if (sibling) {
+    return { method: sibling };
+  }
+
+  if (options.elementType) {
+    return { elementType: options.elementType };
+  }
+
+  throw new Error(
+    `Unable to resolve the element mapping of ${mapperClass.name}.${method}. Use @IterableMapping({ using }) or @IterableMapping({ elementType }).`
+  );
+}
+
+function findSiblingByReturnType(
+  mapperClass: MapperClass,
+  method: string,
+  elementType: new () => unknown
+): string | undefined {
+  let prototype = mapperClass.prototype;
+
+  while (prototype && prototype !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+      if (name === 'constructor' || name === method) continue;
+      if (getDesignType('design:returntype', prototype, name) === elementType) {
+        return name;
+      }
+    }
+    prototype = Object.getPrototypeOf(prototype);
+  }
+
+  return undefined;
+}
+
+function findSiblingByName(mapperClass: object, method: string): string | undefined {
+  const sibling = method.replace(COLLECTION_SUFFIX, '');
+  return sibling !== method && typeof (mapperClass as MapperClass).prototype[sibling] === 'function'
+    ? sibling
+    : undefined;
+}
@@ -1,84 +1,233 @@
-import 'reflect-metadata';
-import { transform } from './transformer';
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { MapperClass as MapperClassType } from '../types/mapper.type';
+import { getCollectionKind } from './collection';
+import { getDesignParamTypes, getDesignType } from './design-metadata';
+import { MappingError } from './errors';
+import { getMapperConfig, getMapperLogger } from './global-config';
+import { isIterableMethod, transformIterable, transformIterableAsync } from './iterable-mapping';
+import {
+  transform,
+  transformAsync,
+  transformInto,
+  transformIntoAsync,
+  transformSources,
+  transformSourcesAsync,
+} from './transformer';
+import { isValueMappingMethod, mapValue } from './value-mapping';
+
+/**
+ * Resolves the instance of a mapper listed in @Mapper({ uses })
+ */
+export type MapperResolver = (mapperClass: MapperClassType) => object | undefined;
+
+export interface MapperProxyOptions {
+  /**
+   * Resolver for used mappers, e.g. backed by a DI container.
+   * Falls back to a shared proxy per mapper class when it returns undefined.
+   */
+  resolveMapper?: MapperResolver;
+}
+
+const mapperResolvers = new WeakMap<object, MapperResolver>();
+const sharedMappers = new Map<MapperClassType, object>();
+const checkedMappers = new WeakSet<object>();
 
 /**
  * Create Mapper proxy object, supporting auto transform and custom method preservation
  *
  * @param MapperClass Mapper class constructor (supports abstract class)
+ * @param options Proxy options
  * @returns Proxied Mapper instance
  */
-export function createMapperProxy<T extends object>(MapperClass: new (...args: any[]) => T): T {
+export function createMapperProxy<T extends object>(
+  MapperClass: new (...args: never[]) => T,
+  options: MapperProxyOptions = {}
+): T {
   // Create instance (even abstract class can be instantiated)
-  const instance = new MapperClass();
+  return wrapMapperInstance(new MapperClass(), options);
+}
 
-  return new Proxy(instance, {
-    get(target, propKey, receiver) {
-      const original = Reflect.get(target, propKey, receiver);
-
-      // Only handle function type properties
-      if (typeof original === 'function') {
-        return function (this: any, ...args: any[]) {
-          // Check if it's an empty method body or abstract method
-          const shouldAutoTransform = isEmptyOrAbstractMethod(
-            original as (...args: any[]) => any,
-            target,
-            propKey
-          );
-
-          if (shouldAutoTransform) {
-            // Automatically execute transform
-            return executeAutoTransform(target, String(propKey), args[0]);
-          } else {
-            // Preserve original method logic
-            return original.apply(this, args);
-          }
-        };
-      }
+/**
+ * Wrap an existing mapper instance, e.g. one created by a DI container with its
+ * constructor dependencies, in the auto transform proxy of createMapperProxy
+ *
+ * @param instance Mapper instance
+ * @param options Proxy options
+ * @returns Proxied Mapper instance
+ */
+export function wrapMapperInstance<T extends object>(
+  instance: T,
+  options: MapperProxyOptions = {}
+): T {
+  // Auto-implemented methods are decided once, when the proxy is created
+  const implementations = new Map<string | symbol, (...args: unknown[]) => unknown>();
+  for (const method of findAutoMethods(instance)) {
+    implementations.set(method, (...args: unknown[]) =>
+      executeAutoTransform(instance, proxy, method, args)
+    );
+  }
 
-      return original;
+  const proxy = new Proxy(instance, {
+    get(target, propKey, receiver) {
+      // Other methods, including the constructor that transform() looks up metadata and
+      // compiled plans by, are passed through as they are
+      return implementations.get(propKey) ?? Reflect.get(target, propKey, receiver);
     },
   }) as T;
+
+  if (options.resolveMapper) {
+    mapperResolvers.set(instance, options.resolveMapper);
+    mapperResolvers.set(proxy, options.resolveMapper);
+  }
+
+  return proxy;
+}
+
+/**
+ * Resolve a used mapper on behalf of the given mapper instance.
+ * Uses the resolver bound by createMapperProxy / wrapMapperInstance, then a shared proxy
+ * per mapper class.
+ */
+export function resolveMapper(owner: object, mapperClass: MapperClassType): object {
+  const resolved = mapperResolvers.get(owner)?.(mapperClass);
+  if (resolved) {
+    return resolved;
+  }
+
+  let shared = sharedMappers.get(mapperClass);
+  if (!shared) {
+    shared = createMapperProxy(mapperClass as new (...args: never[]) => object);
+    sharedMappers.set(mapperClass, shared);
+  }
+  return shared;
+}
+
+/**
+ * Methods of a mapper instance that are auto-implemented: methods marked with @AutoMap(),
+ * methods with mapping metadata of @Mapper({ autoImplement: true }) classes and, with
+ * detectEmptyMethods, methods that look empty. Decorators count on the class defining the
+ * method, so that an override with its own body is not auto-implemented by a parent's decorators.
+ * Lifecycle hooks and conditions are never auto-implemented.
+ */
+function findAutoMethods(instance: object): string[] {
+  const mapperClass = instance.constructor;
+  const { autoImplement, detectEmptyMethods = getMapperConfig().detectEmptyMethods } =
+    metadataStorage.getMapperOptions(mapperClass);
+  const seen = new Set<string>(['constructor']);
+  const methods: string[] = [];
+  // Empty methods of registered mappers are reported once per class
+  const reportEmpty =
+    !checkedMappers.has(mapperClass) &&
+    (metadataStorage.getAllMappers() as object[]).includes(mapperClass);
+
+  for (
+    let prototype = Object.getPrototypeOf(instance);
+    prototype && prototype !== Object.prototype;
+    prototype = Object.getPrototypeOf(prototype)
+  ) {
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+      if (seen.has(name)) continue;
+      seen.add(name);
+
+      const { value } = Object.getOwnPropertyDescriptor(prototype, name) as PropertyDescriptor;
+      if (typeof value !== 'function' || isHookMethod(mapperClass, name)) continue;
+
+      const owner = prototype.constructor;
+      if (
+        metadataStorage.isAutoMapMethod(owner, name) ||
+        (autoImplement && metadataStorage.hasMappingMetadata(owner, name)) ||
+        (detectEmptyMethods && isEmptyMethod(value))
+      ) {
+        methods.push(name);
+      } else if (reportEmpty && isEmptyMethod(value)) {
+        // Most likely relied on the empty method detection of earlier versions
+        getMapperLogger().warn(
+          `${mapperClass.name}.${name} has an empty body but is not auto-implemented. Mark it with @AutoMap(), use @Mapper({ autoImplement: true }) or implement it.`
+        );
+      }
+    }
+  }
+
+  checkedMappers.add(mapperClass);
+  return methods;
 }
 
 /**
- * Determine if method is empty implementation or abstract method
+ * Whether mapper[method] is a @BeforeMapping(), @AfterMapping() or @Condition() method
  */
-function isEmptyOrAbstractMethod(
-  method: (...args: any[]) => any,
-  _target: any,
-  _propKey: string | symbol
-): boolean {
+function isHookMethod(mapperClass: object, method: string): boolean {
+  return (
+    metadataStorage.getConditionMethods(mapperClass).includes(method) ||
+    metadataStorage
+      .getLifecycleMethods(mapperClass, 'before')
+      .some(hook => hook.method === method) ||
+    metadataStorage.getLifecycleMethods(mapperClass, 'after').some(hook => hook.method === method)
+  );
+}
+
+/**
+ * Whether the source text of a method has an empty body or only returns {} or [],
+ * e.g. `return {} as UserDto;` (detectEmptyMethods)
+ */
+function isEmptyMethod(method: (...args: unknown[]) => unknown): boolean {
   try {
-    // Get method source code
-    const methodSource = method.toString();
-
-    // Simplified detection logic: check if it only contains return {} or return {} as Type
-    const isEmptyBody =
-      // Only contains return {};
-      /{\s*(?:\/\/[^\n]*\n\s*)*(?:\/\*[\s\S]*?\*\/\s*)*return\s*\{\s*\}\s*;\s*}/.test(
-        methodSource
-      ) ||
-      // Only contains return {} as Type;
-      /{\s*(?:\/\/[^\n]*\n\s*)*(?:\/\*[\s\S]*?\*\/\s*)*return\s*\{\s*\}\s*as\s+\w+\s*;\s*}/.test(
-        methodSource
-      ) ||
-      // Completely empty method body
-      /{\s*(?:\/\/[^\n]*\n\s*)*(?:\/\*[\s\S]*?\*\/\s*)*\s*}/.test(methodSource);
-
-    return isEmptyBody;
-  } catch (error) {
-    // If unable to get method source code, default to not auto transform
+    // The body is the outermost braces; comments and a return of {} or [] are allowed in it
+    return /^[^{]*\{\s*(?:(?:\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)\s*)*(?:return\s*(?:\{\s*\}|\[\s*\])\s*(?:as\s+[\w.]+(?:\[\])?\s*)?;?\s*(?:(?:\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)\s*)*)?\}\s*$/.test(
+      method.toString()
+    );
+  } catch {
+    // Source text unavailable, e.g. for native or bound functions
     return false;
   }
 }
 
 /**
  * Execute auto transform
+ * The proxy is passed on to transform() so that nested delegation goes through auto transform too
  */
-function executeAutoTransform(target: any, methodName: string, input: any): any {
+function executeAutoTransform(
+  target: object,
+  proxy: object,
+  methodName: string,
+  args: unknown[]
+): unknown {
   try {
     // Get method return type
-    const returnType = (Reflect as any).getMetadata('design:returntype', target, methodName);
+    const returnType = getDesignType('design:returntype', target, methodName) as
+      | (new () => unknown)
+      | undefined;
+
+    // Methods returning Promise<T> map asynchronously
+    if ((returnType as unknown) === Promise) {
+      return executeAsyncAutoTransform(target, proxy, methodName, args).catch(error => {
+        throw toAutoTransformError(methodName, error);
+      });
+    }
+
+    // Methods with a @MappingTarget() parameter update that instance and return it
+    const targetIndex = metadataStorage.getMappingTargetIndex(target.constructor, methodName);
+    if (targetIndex !== undefined) {
+      const input = args[targetIndex === 0 ? 1 : 0];
+      return transformInto(proxy, methodName, input, args[targetIndex] as object);
+    }
+
+    const input = args[0];
+
+    // Value (e.g. enum) mapping methods map the single value
+    if (isValueMappingMethod(target.constructor, methodName)) {
+      return mapValue(proxy, methodName, input);
+    }
+
+    // Methods declaring several parameters combine them as multi-source input
+    const parameterCount = getParameterCount(target, methodName);
+    if (parameterCount > 1 && returnType) {
+      return transformSources(proxy, methodName, args.slice(0, parameterCount), returnType);
+    }
+
+    // Collection methods map each element through the element mapping
+    if (isIterableMethod(target.constructor, methodName, returnType, input)) {
+      return transformIterable(proxy, methodName, input as Iterable<unknown>);
+    }
 
     if (!returnType) {
       throw new Error(
@@ -87,19 +236,78 @@ function executeAutoTransform(target: any, methodName: string, input: any): any
     }
 
     // Call transform function
-    return transform(target, methodName, input, returnType);
+    return transform(proxy, methodName, input, returnType);
   } catch (error) {
+    throw toAutoTransformError(methodName, error);
+  }
+}
+
+/**
+ * Auto transform of a method returning a Promise. The target type comes from
+ * @BeanMapping({ resultType }) as Promise<T> is emitted as plain Promise.
+ */
+async function executeAsyncAutoTransform(
+  target: object,
+  proxy: object,
+  methodName: string,
+  args: unknown[]
+): Promise<unknown> {
+  const targetIndex = metadataStorage.getMappingTargetIndex(target.constructor, methodName);
+  if (targetIndex !== undefined) {
+    const input = args[targetIndex === 0 ? 1 : 0];
+    return transformIntoAsync(proxy, methodName, input, args[targetIndex] as object);
+  }
+
+  const input = args[0];
+  const { resultType } = metadataStorage.getBeanMapping(target.constructor, methodName);
+
+  // Collections: @IterableMapping methods, or collection input without a resultType
+  if (
+    metadataStorage.getIterableMapping(target.constructor, methodName) ||
+    (!resultType && getCollectionKind(input) !== undefined)
+  ) {
+    return transformIterableAsync(proxy, methodName, input as Iterable<unknown>);
+  }
+
+  if (!resultType) {
     throw new Error(
-      `Auto transform failed (method: ${methodName}): ${error instanceof Error ? error.message : String(error)}`
+      `Unable to resolve the result type of async method ${methodName}. Declare it with @BeanMapping({ resultType }).`
     );
   }
+
+  const parameterCount = getParameterCount(target, methodName);
+  if (parameterCount > 1) {
+    return transformSourcesAsync(proxy, methodName, args.slice(0, parameterCount), resultType);
+  }
+
+  return transformAsync(proxy, methodName, input, resultType);
+}
+
+function getParameterCount(target: object, methodName: string): number {
+  return (
+    getDesignParamTypes(target, methodName)?.length ??
+    (target as Record<string, (...args: unknown[]) => unknown>)[methodName].length
+  );
+}
+
+/**
+ * Error of a failed auto transform. MappingErrors already name the mapping and its fields
+ * and are rethrown as they are, also when raised by nested mappings.
+ */
+function toAutoTransformError(methodName: string, error: unknown): Error {
+  if (error instanceof MappingError) {
+    return error;
+  }
+  return new Error(
+    `Auto transform failed (method: ${methodName}): ${error instanceof Error ? error.message : String(error)}`
+  );
 }
 
 /**
  * Check if class is abstract class
  * Note: This function is mainly used for debugging and logging, actual Proxy logic doesn't depend on this
  */
-export function isAbstractClass(constructor: new (...args: any[]) => any): boolean {
+export function isAbstractClass(constructor: new (...args: never[]) => unknown): boolean {
   // Cannot directly detect abstract keyword at JavaScript runtime
   // But we can infer through other means, such as checking for unimplemented methods
   try {
@@ -0,0 +1,22 @@
+/**
+ * Special sources and targets of value mappings (@ValueMapping and @Mapping({ values }))
+ */
+export const MappingConstants = {
+  /**
+   * Source: every value without a mapping of its own. Enum members with a target member
+   * of the same name are still mapped to that member.
+   */
+  ANY_REMAINING: Symbol('ANY_REMAINING'),
+  /**
+   * Source: every value without a mapping of its own, including same-named enum members
+   */
+  ANY_UNMAPPED: Symbol('ANY_UNMAPPED'),
+  /**
+   * Source: null and undefined. Target: null.
+   */
+  NULL: Symbol('NULL'),
+  /**
+   * Target: throw a MappingError for the source value
+   */
+  THROW: Symbol('THROW'),
+} as const;
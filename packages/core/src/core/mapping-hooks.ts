@@ -0,0 +1,65 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { LifecycleMethod } from '../metadata/metadata.storage';
+import type { MappingContext } from '../types/mapping.type';
+import { isPromiseLike } from './promise';
+
+/**
+ * Runs the @BeforeMapping() or @AfterMapping() methods of a mapper for one mapping.
+ * Returns a promise once a hook returns one; the remaining hooks run after it resolves.
+ */
+export type MappingHook = (
+  source: unknown,
+  target: object,
+  context: MappingContext
+) => void | Promise<void>;
+
+/**
+ * Mapper instance whose lifecycle methods are called by name
+ */
+type HookMethods = Record<
+  string,
+  (source: unknown, target: object, context: MappingContext) => unknown
+>;
+
+/**
+ * Compile the lifecycle methods of a mapper class for one target type, or undefined when none
+ * applies. targetType filters are resolved here, sourceType filters per call.
+ */
+export function compileMappingHook(
+  mapperClass: object,
+  phase: LifecycleMethod['phase'],
+  outputType: new () => unknown
+): MappingHook | undefined {
+  const hooks = metadataStorage
+    .getLifecycleMethods(mapperClass, phase)
+    .filter(({ options }) => !options.targetType || isSubclassOf(outputType, options.targetType));
+
+  if (hooks.length === 0) {
+    return undefined;
+  }
+
+  const run = (
+    from: number,
+    source: unknown,
+    target: object,
+    context: MappingContext
+  ): void | Promise<void> => {
+    for (let i = from; i < hooks.length; i++) {
+      const { method, options } = hooks[i];
+      if (options.sourceType && !(source instanceof options.sourceType)) continue;
+      const result = (context.mapper as HookMethods)[method](source, target, context);
+      if (isPromiseLike(result)) {
+        return Promise.resolve(result).then(() => run(i + 1, source, target, context));
+      }
+    }
+  };
+
+  return (source, target, context) => run(0, source, target, context);
+}
+
+function isSubclassOf(
+  type: new () => unknown,
+  parent: abstract new (...args: never[]) => unknown
+): boolean {
+  return type === parent || type.prototype instanceof parent;
+}
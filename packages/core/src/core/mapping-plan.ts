@@ -0,0 +1,817 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { NullValuePropertyStrategy } from '../types/mapper.type';
+import type {
+  ConversionOptions,
+  MappingConditionFn,
+  MappingContext,
+  MappingOptions,
+  MappingTransformFn,
+} from '../types/mapping.type';
+import { awaitElements } from './collection';
+import { compilePropertyCondition } from './condition';
+import { compileCopier, resolveCopyStrategy, ValueCopier } from './copy-strategy';
+import { MappingError } from './errors';
+import { getMapperConfig, getMapperConfigVersion, getMapperLogger } from './global-config';
+import {
+  compileFlattenedReader,
+  compileUnflattener,
+  FlattenedReader,
+  NO_FLATTENED_VALUE,
+  resolveFlattening,
+  Unflattener,
+} from './flattening';
+import { compileMappingHook } from './mapping-hooks';
+import { compileNameMatcher, findSourceKey } from './name-matcher';
+import {
+  enterFrame,
+  findMappedTarget,
+  MappedTargetKey,
+  MappingFrame,
+  registerMappedTarget,
+  resolveObjectGraphOptions,
+  runInScope,
+} from './mapping-scope';
+import { createSourceObject, findSourceOf, normalizeSourcePath } from './multi-source';
+import {
+  compileAutoDelegate,
+  compileUsingDelegate,
+  NestedDelegate,
+  NO_DELEGATE,
+} from './nested-mapping';
+import {
+  compileGetter,
+  compileSetter,
+  formatPath,
+  Indexable,
+  parsePath,
+  PathGetter,
+  PathSetter,
+} from './path-accessor';
+import { isPromiseLike } from './promise';
+import {
+  ConversionFn,
+  findConversion,
+  getValueType,
+  NOT_CONVERTIBLE,
+  resolveConversionTargetType,
+} from './type-conversion';
+import { compileUnmappedReporter } from './unmapped-report';
+import { compileValueMap } from './value-mapping';
+
+/**
+ * Specialized mapping function compiled for one (mapper, method, outputType) pair.
+ * Maps into target when given (update mode), otherwise into a new outputType instance.
+ * Multi-source plans take the array of source parameters as input.
+ */
+export type MappingPlan<TInput = unknown, TOutput = unknown> = (
+  input: TInput,
+  mapper?: object,
+  target?: TOutput
+) => TOutput;
+
+interface FieldAccessor {
+  target: string;
+  get: PathGetter;
+  set: PathSetter;
+  getTarget: PathGetter;
+  condition?: MappingConditionFn;
+  convert?: MappingTransformFn;
+  delegate?: NestedDelegate;
+  autoDelegate?: NestedDelegate;
+  /**
+   * Copies values that neither a converter nor a mapper method produced
+   */
+  copy?: ValueCopier;
+  /**
+   * Target type for the built-in type conversions, unless a converter is given
+   */
+  targetType?: unknown;
+  conversionOptions: ConversionOptions;
+  hasDefault: boolean;
+  defaultValue?: unknown;
+}
+
+interface AutoField {
+  key: string;
+  /**
+   * Name normalized by the naming strategy, if any
+   */
+  name?: string;
+  autoDelegate?: NestedDelegate;
+  targetType?: unknown;
+  /**
+   * Flattening fallbacks when the source has no property of the target name
+   */
+  flattened?: FlattenedReader;
+  unflatten?: Unflattener;
+}
+
+/**
+ * Async variant of a mapping plan: async converters, nested mapper methods and hooks
+ * are awaited before the target is returned
+ */
+export type AsyncMappingPlan<TInput = unknown, TOutput = unknown> = (
+  input: TInput,
+  mapper?: object,
+  target?: TOutput
+) => Promise<TOutput>;
+
+/**
+ * State of one mapping invocation
+ */
+interface MappingRun {
+  input: unknown;
+  sources?: Indexable[];
+  mapper?: object;
+  output: Indexable;
+  updating: boolean;
+  frame: MappingFrame;
+  /**
+   * The source was mapped to the same target type before within the session;
+   * output is the target created then
+   */
+  reused: boolean;
+  context?: MappingContext;
+}
+
+/**
+ * Phases of a compiled mapping, shared by the sync and the async plan
+ */
+interface MappingRunner {
+  /**
+   * Mapper class and method, e.g. 'UserMapper.toDto'
+   */
+  location: string;
+  start(rawInput: unknown, mapper?: object, target?: unknown): MappingRun;
+  before(run: MappingRun): void | Promise<void>;
+  /**
+   * Write the target properties. In async mode (pending given), values that are still
+   * being computed are written once they resolve and their promises collected in pending.
+   */
+  map(run: MappingRun, pending?: Promise<void>[]): void;
+  after(run: MappingRun): void | Promise<void>;
+}
+
+interface CompiledPlans {
+  sync: MappingPlan;
+  async: AsyncMappingPlan;
+}
+
+type PlanCache = WeakMap<object, Map<string, Map<object, CompiledPlans>>>;
+
+let planCache: PlanCache = new WeakMap();
+let planCacheVersion = metadataStorage.version;
+let planCacheConfigVersion = getMapperConfigVersion();
+
+const isEnumerable = Object.prototype.propertyIsEnumerable;
+
+/**
+ * Get the compiled mapping plan for a mapper method, compiling it on first use.
+ * The whole cache is dropped as soon as new mapping metadata is registered
+ * or the global mapper configuration changes.
+ */
+export function getMappingPlan<TInput, TOutput>(
+  mapperClass: object,
+  method: string,
+  outputType: new () => TOutput,
+  multiSource = false
+): MappingPlan<TInput, TOutput> {
+  return getCompiledPlans(mapperClass, method, outputType, multiSource).sync as MappingPlan<
+    TInput,
+    TOutput
+  >;
+}
+
+/**
+ * Get the compiled async mapping plan for a mapper method, see getMappingPlan()
+ */
+export function getAsyncMappingPlan<TInput, TOutput>(
+  mapperClass: object,
+  method: string,
+  outputType: new () => TOutput,
+  multiSource = false
+): AsyncMappingPlan<TInput, TOutput> {
+  return getCompiledPlans(mapperClass, method, outputType, multiSource).async as AsyncMappingPlan<
+    TInput,
+    TOutput
+  >;
+}
+
+/**
+ * Drop every compiled mapping plan
+ */
+export function clearMappingPlans(): void {
+  planCache = new WeakMap();
+  planCacheVersion = metadataStorage.version;
+  planCacheConfigVersion = getMapperConfigVersion();
+}
+
+/**
+ * Compile the mapping metadata of a mapper method into a mapping function.
+ *
+ * Paths are parsed once, and the list of auto-matched keys is computed once from a
+ * sample output instance (own properties plus prototype properties).
+ */
+export function compileMappingPlan<TInput, TOutput>(
+  mapperClass: object,
+  method: string,
+  outputType: new () => TOutput,
+  multiSource = false
+): MappingPlan<TInput, TOutput> {
+  return createSyncPlan(
+    compileMappingRunner(mapperClass, method, outputType, multiSource)
+  ) as MappingPlan<TInput, TOutput>;
+}
+
+function getCompiledPlans(
+  mapperClass: object,
+  method: string,
+  outputType: new () => unknown,
+  multiSource: boolean
+): CompiledPlans {
+  if (
+    planCacheVersion !== metadataStorage.version ||
+    planCacheConfigVersion !== getMapperConfigVersion()
+  ) {
+    clearMappingPlans();
+  }
+
+  let methods = planCache.get(mapperClass);
+  if (!methods) {
+    methods = new Map();
+    planCache.set(mapperClass, methods);
+  }
+
+  // Multi-source plans are cached apart from the single-source plans of the same method
+  const methodKey = multiSource ? `${method}(...sources)` : method;
+  let plans = methods.get(methodKey);
+  if (!plans) {
+    plans = new Map();
+    methods.set(methodKey, plans);
+  }
+
+  let compiled = plans.get(outputType);
+  if (!compiled) {
+    const runner = compileMappingRunner(mapperClass, method, outputType, multiSource);
+    compiled = { sync: createSyncPlan(runner), async: createAsyncPlan(runner) };
+    plans.set(outputType, compiled);
+  }
+
+  return compiled;
+}
+
+function createSyncPlan(runner: MappingRunner): MappingPlan {
+  return (input, mapper, target) => {
+    const run = runner.start(input, mapper, target);
+    if (run.reused) return run.output;
+    assertSyncHook(runner, '@BeforeMapping()', runner.before(run));
+    runner.map(run);
+    assertSyncHook(runner, '@AfterMapping()', runner.after(run));
+    return run.output;
+  };
+}
+
+/**
+ * A synchronous mapping cannot wait for an async hook, whose effects would land after the
+ * target is returned
+ */
+function assertSyncHook(runner: MappingRunner, hook: string, result: void | Promise<void>): void {
+  if (isPromiseLike(result)) {
+    throw asyncResultError(result, `A ${hook} method of ${runner.location}`);
+  }
+}
+
+/**
+ * A synchronous mapping cannot wait for an async converter or nested mapper method either,
+ * whose promise would be written to the target in place of the value
+ */
+function assertSyncValue(
+  value: unknown,
+  producer: 'converter' | 'nested mapper method',
+  target: string,
+  location: string
+): unknown {
+  if (isPromiseLike(value)) {
+    throw asyncResultError(value, `The ${producer} of "${target}" in ${location}`, [target]);
+  }
+  return value;
+}
+
+function asyncResultError(
+  result: PromiseLike<unknown>,
+  producer: string,
+  fields: string[] = []
+): MappingError {
+  // The mapping fails either way; keep a rejected promise from surfacing as an unhandled rejection
+  Promise.resolve(result).catch(() => undefined);
+  return new MappingError(
+    `${producer} returned a promise, which a synchronous mapping cannot await. Use transformAsync() or declare the mapper method as returning a Promise.`,
+    fields
+  );
+}
+
+function createAsyncPlan(runner: MappingRunner): AsyncMappingPlan {
+  return async (input, mapper, target) => {
+    const run = runner.start(input, mapper, target);
+    if (run.reused) return run.output;
+    await runner.before(run);
+    const pending: Promise<void>[] = [];
+    runner.map(run, pending);
+    await Promise.all(pending);
+    await runner.after(run);
+    return run.output;
+  };
+}
+
+function compileMappingRunner(
+  mapperClass: object,
+  method: string,
+  outputType: new () => unknown,
+  multiSource: boolean
+): MappingRunner {
+  const sourceNames = metadataStorage.getSourceParameterNames(mapperClass, method);
+  let mappings: MappingOptions[] = metadataStorage.getMappings(mapperClass, method);
+  if (multiSource) {
+    // Source paths start with a parameter name; normalized to names for unmapped source reporting
+    mappings = mappings.map(mapping =>
+      mapping.source === undefined
+        ? mapping
+        : { ...mapping, source: normalizeSourcePath(mapperClass, method, mapping, sourceNames) }
+    );
+  }
+  const sample = new outputType() as Indexable;
+  const createOutput = () => new outputType() as Indexable;
+
+  const explicitFields: FieldAccessor[] = mappings
+    .filter(mapping => !mapping.ignore)
+    .map(mapping => compileExplicitField(mapperClass, method, mapping, outputType, sample));
+  // Ignored targets are also excluded from auto-matching
+  const usedTargetKeys = new Set(mappings.map(mapping => formatPath(parsePath(mapping.target))));
+
+  const outputKeys = new Set([
+    ...Object.getOwnPropertyNames(sample),
+    ...Object.getOwnPropertyNames(Object.getPrototypeOf(sample)),
+  ]);
+  const autoKeys = Array.from(outputKeys).filter(key => !usedTargetKeys.has(formatPath([key])));
+  // Naming strategies apply to single-source methods
+  const nameMatcher = multiSource ? undefined : compileNameMatcher(mapperClass, method);
+  const flattening = !multiSource && resolveFlattening(mapperClass, method);
+  const copy = compileCopier(resolveCopyStrategy(mapperClass, method));
+  const autoFields: AutoField[] = autoKeys.map(key => ({
+    key,
+    name: nameMatcher?.normalize(key),
+    autoDelegate: compileAutoDelegate(mapperClass, outputType, key, sample),
+    targetType: resolveConversionTargetType(outputType, key, sample[key]),
+    flattened: flattening ? compileFlattenedReader(key) : undefined,
+    unflatten: flattening ? compileUnflattener(key, sample, usedTargetKeys, copy) : undefined,
+  }));
+
+  const reportUnmapped = compileUnmappedReporter(
+    mapperClass,
+    method,
+    mappings,
+    autoKeys,
+    sample,
+    multiSource ? sourceNames : undefined
+  );
+  const nullValueStrategy = resolveNullValueStrategy(mapperClass, method);
+  const location = `${(mapperClass as { name: string }).name}.${method}`;
+  const propertyCondition = compilePropertyCondition(mapperClass);
+  const beforeMapping = compileMappingHook(mapperClass, 'before', outputType);
+  const afterMapping = compileMappingHook(mapperClass, 'after', outputType);
+  const graphOptions = resolveObjectGraphOptions(mapperClass, method);
+  const targetKey: MappedTargetKey = { mapperClass, method, outputType };
+
+  if (getMapperConfig().debug) {
+    getMapperLogger().debug?.(
+      `Compiled mapping plan ${location} -> ${outputType.name}: ${describeFields(mappings, autoKeys)}`
+    );
+  }
+
+  return {
+    location,
+
+    start(rawInput, mapper, target) {
+      // 多源映射：按参数名 / 位置组合成一个源对象
+      const sources = multiSource ? (rawInput as Indexable[]) : undefined;
+      const updating = target !== undefined && target !== null;
+      const input = sources ? createSourceObject(sources, sourceNames) : rawInput;
+      const frame = enterFrame(input, location, graphOptions);
+      let output = updating ? (target as Indexable) : undefined;
+
+      // 同一次顶层调用中，同一源对象只映射一次（保持对象图中的引用关系）
+      if (!updating && !sources && input !== null && typeof input === 'object') {
+        output = findMappedTarget(frame, input, targetKey) as Indexable | undefined;
+        if (output !== undefined) {
+          return { input, sources, mapper, output, updating, frame, reused: true };
+        }
+        output = createOutput();
+        registerMappedTarget(frame, input, targetKey, output);
+      }
+
+      return {
+        input,
+        sources,
+        mapper,
+        output: output ?? createOutput(),
+        updating,
+        frame,
+        reused: false,
+        context:
+          mapper && (beforeMapping || afterMapping)
+            ? { mapper, method, targetType: outputType }
+            : undefined,
+      };
+    },
+
+    // @BeforeMapping() 方法
+    before({ input, output, context }) {
+      if (beforeMapping && context) return beforeMapping(input, output, context);
+    },
+
+    map({ input, sources, mapper, output, updating, frame }, pending) {
+      const matchedKeys: string[] | undefined = reportUnmapped ? [] : undefined;
+      // 超过 maxDepth 时不再调用嵌套 mapper 方法，目标属性保持初始值
+      const nestable = frame.depth < frame.session.maxDepth;
+      // Fresh instance holding the initial values for 'set-default', created on demand
+      let defaults: Indexable | undefined;
+
+      // 1️⃣ 显式字段映射
+      for (let i = 0; i < explicitFields.length; i++) {
+        const field = explicitFields[i];
+        let value = field.get(input);
+
+        // 条件映射：@Mapping({ condition }) 与 @Condition() 方法
+        if (field.condition && !field.condition(input, value)) continue;
+        if (propertyCondition && !propertyCondition(value, input, mapper)) continue;
+
+        if (value === null || value === undefined) {
+          // Converters only see actual values; null and undefined are written through as-is
+          if (field.hasDefault) {
+            value = field.defaultValue;
+          } else if (updating && nullValueStrategy !== 'set-null') {
+            if (nullValueStrategy === 'ignore') continue;
+            value = field.getTarget((defaults ??= createOutput()));
+          }
+        } else {
+          const nested = field.delegate ?? field.autoDelegate;
+          const scope = nested?.matches(value) ? { frame, path: field.target } : undefined;
+          if (scope && !nestable) continue;
+
+          if (pending) {
+            pending.push(
+              runInScope(scope, () => resolveFieldValueAsync(field, value, input, mapper)).then(
+                write(field, output)
+              )
+            );
+            continue;
+          }
+          value = scope
+            ? runInScope(scope, () => resolveFieldValue(field, value, input, location, mapper))
+            : resolveFieldValue(field, value, input, location, mapper);
+        }
+
+        field.set(output, value);
+      }
+
+      if (input === null || input === undefined) {
+        return;
+      }
+
+      // 命名策略：按规范化后的名称索引源对象的属性
+      const sourceKeys = nameMatcher && !sources ? nameMatcher.index(input) : undefined;
+
+      // 2️⃣ 自动字段匹配（字段名一致 + typeof 一致）
+      for (let i = 0; i < autoFields.length; i++) {
+        const { key, name, autoDelegate, targetType, flattened, unflatten } = autoFields[i];
+        let inputValue: unknown;
+
+        if (sources) {
+          const index = findSourceOf(sources, key, sourceNames, location);
+          if (index === -1) continue;
+          inputValue = sources[index][key];
+        } else {
+          const sourceKey = sourceKeys
+            ? findSourceKey(sourceKeys, name as string, key, location)
+            : isEnumerable.call(input, key)
+              ? key
+              : undefined;
+
+          if (sourceKey !== undefined) {
+            inputValue = (input as Indexable)[sourceKey];
+            // Read under another name: the source key counts as mapped for source reporting
+            if (sourceKey !== key) matchedKeys?.push(sourceKey);
+          } else {
+            // 扁平化：名称直接匹配优先，其次 profileBio ← profile.bio，最后 profile.bio ← profileBio
+            const read = flattened ? flattened(input) : NO_FLATTENED_VALUE;
+            if (read !== NO_FLATTENED_VALUE) {
+              inputValue = read.value;
+              matchedKeys?.push(read.key);
+            } else {
+              const readKeys = unflatten?.(
+                input,
+                output,
+                updating && nullValueStrategy === 'ignore'
+              );
+              if (readKeys?.length) matchedKeys?.push(key, ...readKeys);
+              continue;
+            }
+          }
+        }
+
+        if (propertyCondition && !propertyCondition(inputValue, input, mapper)) {
+          // Skipped by a condition, which still counts as mapped
+          matchedKeys?.push(key);
+          continue;
+        }
+
+        // 更新模式下 null / undefined 按 nullValuePropertyStrategy 处理
+        if (updating && (inputValue === null || inputValue === undefined)) {
+          if (nullValueStrategy === 'ignore') continue;
+          output[key] =
+            nullValueStrategy === 'set-default' ? (defaults ??= createOutput())[key] : inputValue;
+          matchedKeys?.push(key);
+          continue;
+        }
+
+        // 嵌套对象交给 uses 中匹配的 mapper 方法转换
+        if (autoDelegate?.matches(inputValue)) {
+          matchedKeys?.push(key);
+          if (!nestable) continue;
+
+          const delegated = runInScope({ frame, path: key }, () =>
+            autoDelegate(inputValue, mapper)
+          );
+          if (pending) {
+            pending.push(
+              Promise.resolve(delegated)
+                .then(awaitElements)
+                .then(value => void (output[key] = value))
+            );
+          } else {
+            output[key] = assertSyncValue(delegated, 'nested mapper method', key, location);
+          }
+          continue;
+        }
+
+        const outputValue = output[key];
+
+        // 若输出初始值是 undefined，则只检查 input 是否为 object、number、string 等合理值
+        if (outputValue === undefined || typeof inputValue === typeof outputValue) {
+          output[key] = copy ? copy(inputValue) : inputValue;
+          matchedKeys?.push(key);
+        } else if (targetType !== undefined) {
+          // 类型不一致时尝试内置 / 注册的类型转换（Date → string、'42' → number 等）
+          const conversion = findConversion(inputValue, targetType);
+          if (conversion) {
+            output[key] = applyConversion(conversion, inputValue, targetType, {}, key);
+            matchedKeys?.push(key);
+          }
+        }
+      }
+
+      // 3️⃣ 未映射字段报告（unmappedTargetPolicy / unmappedSourcePolicy）
+      if (reportUnmapped && matchedKeys) {
+        reportUnmapped(input, matchedKeys);
+      }
+    },
+
+    // 4️⃣ @AfterMapping() 方法
+    after({ input, output, context }) {
+      if (afterMapping && context) return afterMapping(input, output, context);
+    },
+  };
+}
+
+/**
+ * Convert a non-null explicit field value: nested mapper method, then converter or
+ * built-in type conversion
+ */
+function resolveFieldValue(
+  field: FieldAccessor,
+  value: unknown,
+  input: unknown,
+  location: string,
+  mapper?: object
+): unknown {
+  if (field.delegate) {
+    value = assertSyncValue(
+      field.delegate(value, mapper),
+      'nested mapper method',
+      field.target,
+      location
+    );
+  } else {
+    const delegated = field.autoDelegate ? field.autoDelegate(value, mapper) : NO_DELEGATE;
+    if (delegated !== NO_DELEGATE) {
+      value = assertSyncValue(delegated, 'nested mapper method', field.target, location);
+    } else if (field.copy) {
+      value = field.copy(value);
+    }
+  }
+  if (!field.convert) {
+    return convertBuiltIn(field, value);
+  }
+  let converted: unknown;
+  try {
+    converted = field.convert(value, input);
+  } catch (error) {
+    throw withField(error, field);
+  }
+  return assertSyncValue(converted, 'converter', field.target, location);
+}
+
+/**
+ * resolveFieldValue() awaiting async nested mapper methods and converters
+ */
+async function resolveFieldValueAsync(
+  field: FieldAccessor,
+  value: unknown,
+  input: unknown,
+  mapper?: object
+): Promise<unknown> {
+  if (field.delegate) {
+    value = await awaitElements(await field.delegate(value, mapper));
+  } else {
+    const delegated = field.autoDelegate
+      ? await awaitElements(await field.autoDelegate(value, mapper))
+      : NO_DELEGATE;
+    if (delegated !== NO_DELEGATE) value = delegated;
+    else if (field.copy) value = field.copy(value);
+  }
+  if (!field.convert) {
+    return convertBuiltIn(field, value);
+  }
+  try {
+    return await field.convert(value, input);
+  } catch (error) {
+    throw withField(error, field);
+  }
+}
+
+/**
+ * Name the target property in the error of its converter: a MappingError (e.g. of a value map)
+ * gets the field, any other error becomes a MappingError naming it
+ */
+function withField(error: unknown, field: FieldAccessor): MappingError {
+  if (error instanceof MappingError) {
+    return error.fields.length === 0
+      ? new MappingError(error.message, [field.target], error.cause)
+      : error;
+  }
+  const reason = error instanceof Error ? error.message : String(error);
+  return new MappingError(
+    `Converter of "${field.target}" failed: ${reason}`,
+    [field.target],
+    error
+  );
+}
+
+/**
+ * 内置类型转换；没有适用的转换时按原值写入
+ */
+function convertBuiltIn(field: FieldAccessor, value: unknown): unknown {
+  if (field.targetType === undefined || getValueType(value) === field.targetType) {
+    return value;
+  }
+  const conversion = findConversion(value, field.targetType);
+  return conversion
+    ? applyConversion(conversion, value, field.targetType, field.conversionOptions, field.target)
+    : value;
+}
+
+/**
+ * Apply a registered conversion; a value it cannot convert (e.g. 'abc' to number) throws
+ * a MappingError naming the target
+ */
+function applyConversion(
+  conversion: ConversionFn,
+  value: unknown,
+  targetType: unknown,
+  options: ConversionOptions,
+  target: string
+): unknown {
+  const converted = conversion(value, options);
+  if (converted === NOT_CONVERTIBLE) {
+    const text = typeof value === 'string' ? `"${value}"` : String(value);
+    const typeName = (targetType as { name?: string }).name;
+    throw new MappingError(`Cannot convert ${text} to ${typeName} for "${target}".`, [target]);
+  }
+  return converted;
+}
+
+function write(field: FieldAccessor, output: object): (value: unknown) => void {
+  return value => field.set(output, value);
+}
+
+function compileExplicitField(
+  mapperClass: object,
+  method: string,
+  mapping: MappingOptions,
+  outputType: new () => unknown,
+  sample: Indexable
+): FieldAccessor {
+  const delegate = compileUsingDelegate(mapperClass, method, mapping);
+  const convert = resolveConverter(mapperClass, method, mapping);
+  const field: FieldAccessor = {
+    target: mapping.target,
+    get: compileValueGetter(mapping),
+    set: compileSetter(mapping.target),
+    getTarget: compileGetter(mapping.target),
+    condition: mapping.condition,
+    convert,
+    delegate,
+    conversionOptions: {
+      dateFormat: mapping.dateFormat,
+      numberFormat: mapping.numberFormat,
+      booleanFormat: mapping.booleanFormat,
+    },
+    hasDefault: mapping.defaultValue !== undefined,
+    defaultValue: mapping.defaultValue,
+  };
+
+  if (!convert) {
+    const initialValue = compileGetter(mapping.target)(sample);
+    field.targetType = resolveConversionTargetType(outputType, mapping.target, initialValue);
+  }
+
+  if (mapping.source !== undefined && !delegate && !convert) {
+    field.autoDelegate = compileAutoDelegate(mapperClass, outputType, mapping.target, sample);
+  }
+
+  if (!delegate && !convert) {
+    field.copy = compileCopier(resolveCopyStrategy(mapperClass, method, mapping));
+  }
+
+  return field;
+}
+
+/**
+ * Reader of the mapped value: a constant, an expression over the source or a source path
+ */
+function compileValueGetter(mapping: MappingOptions): PathGetter {
+  if (mapping.constant !== undefined) {
+    const constant = mapping.constant;
+    return () => constant;
+  }
+
+  if (mapping.expression) {
+    const expression = mapping.expression;
+    return input => (input === null || input === undefined ? undefined : expression(input));
+  }
+
+  return compileGetter(mapping.source as string);
+}
+
+/**
+ * Resolve the null value property strategy: method (@BeanMapping) over mapper (@Mapper) over global config
+ */
+function resolveNullValueStrategy(mapperClass: object, method: string): NullValuePropertyStrategy {
+  return (
+    metadataStorage.getBeanMapping(mapperClass, method).nullValuePropertyStrategy ??
+    metadataStorage.getMapperOptions(mapperClass).nullValuePropertyStrategy ??
+    getMapperConfig().nullValuePropertyStrategy ??
+    'set-null'
+  );
+}
+
+/**
+ * Resolve the converter of a mapping, looking up named converters on the mapper options
+ */
+function resolveConverter(
+  mapperClass: object,
+  method: string,
+  mapping: MappingOptions
+): MappingTransformFn | undefined {
+  if (mapping.values) {
+    return compileValueMap(mapping.values, `${(mapperClass as { name: string }).name}.${method}`);
+  }
+
+  if (typeof mapping.transform !== 'string') {
+    return mapping.transform;
+  }
+
+  const converter =
+    metadataStorage.getMapperOptions(mapperClass).converters?.[mapping.transform] ??
+    getMapperConfig().converters?.[mapping.transform];
+  if (typeof converter !== 'function') {
+    throw new Error(
+      `Unknown converter "${mapping.transform}" referenced by ${(mapperClass as { name: string }).name}.${method} (target: ${mapping.target}). Register it with @Mapper({ converters: { ${mapping.transform} } }) or configureMapper({ converters }).`
+    );
+  }
+
+  return converter;
+}
+
+/**
+ * Field mappings of a plan for debug logging, e.g. 'name <- fullName, id (auto)'
+ */
+function describeFields(mappings: MappingOptions[], autoKeys: string[]): string {
+  const explicit = mappings.map(mapping => {
+    if (mapping.ignore) return `${mapping.target} (ignored)`;
+    if (mapping.source !== undefined) return `${mapping.target} <- ${mapping.source}`;
+    return `${mapping.target} <- ${mapping.expression ? 'expression' : 'constant'}`;
+  });
+  const auto = autoKeys.filter(key => key !== 'constructor').map(key => `${key} (auto)`);
+  return [...explicit, ...auto].join(', ') || 'no fields';
+}
@@ -0,0 +1,207 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import { MappingError } from './errors';
+import { getMapperConfig } from './global-config';
+
+/**
+ * State shared by every mapping of one top-level call: the targets created so far,
+ * by source object, mapper method and target type, and the object graph options of the
+ * top-level method
+ */
+export interface MappingSession {
+  location: string;
+  targets: WeakMap<object, Map<object, Map<string, Map<unknown, object>>>>;
+  maxDepth: number;
+  allowCycles: boolean;
+}
+
+/**
+ * Mapping that created a target: a source mapped again by the same mapper method into the
+ * same target type gets that target, while other methods (e.g. toFull and toPublic) create
+ * their own
+ */
+export interface MappedTargetKey {
+  mapperClass: object;
+  method: string;
+  outputType: unknown;
+}
+
+/**
+ * One mapping of a source object within a session. Frames link to the mapping of the
+ * enclosing object, which makes the path of a nested object and its depth known.
+ */
+export interface MappingFrame {
+  session: MappingSession;
+  parent?: MappingFrame;
+  source: unknown;
+  /**
+   * Target path of the mapped object relative to the parent, e.g. 'orders[0]'
+   */
+  path: string;
+  depth: number;
+}
+
+/**
+ * Frame whose mapping runs a nested mapper call, and the target path of the nested value
+ */
+export interface MappingScope {
+  frame: MappingFrame;
+  path: string;
+}
+
+export interface ObjectGraphOptions {
+  maxDepth?: number;
+  allowCycles?: boolean;
+}
+
+/**
+ * Object graph options of a mapper method: method (@BeanMapping) over mapper (@Mapper)
+ * over global config
+ */
+export function resolveObjectGraphOptions(mapperClass: object, method: string): ObjectGraphOptions {
+  const beanOptions = metadataStorage.getBeanMapping(mapperClass, method);
+  const mapperOptions = metadataStorage.getMapperOptions(mapperClass);
+  const config = getMapperConfig();
+  return {
+    maxDepth: beanOptions.maxDepth ?? mapperOptions.maxDepth ?? config.maxDepth,
+    allowCycles: beanOptions.allowCycles ?? mapperOptions.allowCycles ?? config.allowCycles,
+  };
+}
+
+// Scope of the nested mapper call being made, read by the mapping it starts
+let currentScope: MappingScope | undefined;
+
+export function getMappingScope(): MappingScope | undefined {
+  return currentScope;
+}
+
+/**
+ * Call fn with scope as the current scope, so that mappings started by fn join its session
+ */
+export function runInScope<T>(scope: MappingScope | undefined, fn: () => T): T {
+  const previous = currentScope;
+  currentScope = scope;
+  try {
+    return fn();
+  } finally {
+    currentScope = previous;
+  }
+}
+
+/**
+ * Scope of one element of a collection mapped within scope
+ */
+export function getElementScope(
+  scope: MappingScope | undefined,
+  key: unknown
+): MappingScope | undefined {
+  return scope && { frame: scope.frame, path: `${scope.path}[${String(key)}]` };
+}
+
+/**
+ * Frame of a mapping starting now: nested in the current scope, else the root of a new session
+ */
+export function enterFrame(
+  source: unknown,
+  location: string,
+  options: ObjectGraphOptions
+): MappingFrame {
+  const scope = currentScope;
+  if (scope) {
+    return {
+      session: scope.frame.session,
+      parent: scope.frame,
+      source,
+      path: scope.path,
+      depth: scope.frame.depth + 1,
+    };
+  }
+
+  return { session: createSession(location, options), source, path: '', depth: 0 };
+}
+
+/**
+ * Scope of the elements of a top-level collection mapping: the root of a new session
+ * shared by all of its elements, which are mapped at depth 0
+ */
+export function createCollectionScope(location: string, options: ObjectGraphOptions): MappingScope {
+  return {
+    frame: { session: createSession(location, options), source: undefined, path: '', depth: -1 },
+    path: '',
+  };
+}
+
+/**
+ * Target already created for source by the same mapping in this session, after checking
+ * for cycles. Returns undefined for sources this mapping sees for the first time.
+ */
+export function findMappedTarget(
+  frame: MappingFrame,
+  source: object,
+  key: MappedTargetKey
+): object | undefined {
+  if (!frame.session.allowCycles) {
+    for (let ancestor = frame.parent; ancestor; ancestor = ancestor.parent) {
+      if (ancestor.source === source) {
+        throw createCycleError(frame, ancestor);
+      }
+    }
+  }
+  return frame.session.targets
+    .get(source)
+    ?.get(key.mapperClass)
+    ?.get(key.method)
+    ?.get(key.outputType);
+}
+
+export function registerMappedTarget(
+  frame: MappingFrame,
+  source: object,
+  key: MappedTargetKey,
+  target: object
+): void {
+  let mappers = frame.session.targets.get(source);
+  if (!mappers) {
+    mappers = new Map();
+    frame.session.targets.set(source, mappers);
+  }
+  let methods = mappers.get(key.mapperClass);
+  if (!methods) {
+    methods = new Map();
+    mappers.set(key.mapperClass, methods);
+  }
+  let targets = methods.get(key.method);
+  if (!targets) {
+    targets = new Map();
+    methods.set(key.method, targets);
+  }
+  targets.set(key.outputType, target);
+}
+
+/**
+ * Full target path of a frame from the top-level object, e.g. 'orders[0].customer'
+ */
+export function getFramePath(frame: MappingFrame): string {
+  const paths: string[] = [];
+  for (let current: MappingFrame | undefined = frame; current?.parent; current = current.parent) {
+    paths.unshift(current.path);
+  }
+  return paths.join('.');
+}
+
+function createSession(location: string, options: ObjectGraphOptions): MappingSession {
+  return {
+    location,
+    targets: new WeakMap(),
+    maxDepth: options.maxDepth ?? Infinity,
+    allowCycles: options.allowCycles ?? true,
+  };
+}
+
+function createCycleError(frame: MappingFrame, ancestor: MappingFrame): MappingError {
+  const path = getFramePath(frame);
+  const ancestorPath = getFramePath(ancestor);
+  return new MappingError(
+    `Cyclic reference in ${frame.session.location}: "${path}" refers back to ${ancestorPath ? `"${ancestorPath}"` : 'the top-level source'}. Allow cycles to map it to the same target instance, or stop before it with maxDepth.`,
+    [path]
+  );
+}
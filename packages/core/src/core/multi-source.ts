@@ -0,0 +1,91 @@
+import type { MappingOptions } from '../types/mapping.type';
+import { MappingError } from './errors';
+import { formatPath, Indexable, parsePath } from './path-accessor';
+
+/**
+ * Name of a source parameter: its @Source() name, else its position as '$0', '$1', ...
+ */
+export function getSourceLabel(names: string[], index: number): string {
+  return names[index] ?? `$${index}`;
+}
+
+/**
+ * Object exposing the source parameters of a multi-source call by name and by position,
+ * so that source paths such as 'customer.fullName' or '$1.fullName' resolve with plain path getters
+ */
+export function createSourceObject(sources: unknown[], names: string[]): Indexable {
+  const object: Indexable = {};
+  for (let i = 0; i < sources.length; i++) {
+    object[`$${i}`] = sources[i];
+    if (names[i] !== undefined) object[names[i]] = sources[i];
+  }
+  return object;
+}
+
+/**
+ * Source parameters of a multi-source call, read back from a source object
+ */
+export function getSourceArguments(sourceObject: Indexable): unknown[] {
+  const sources: unknown[] = [];
+  for (let i = 0; `$${i}` in sourceObject; i++) {
+    sources.push(sourceObject[`$${i}`]);
+  }
+  return sources;
+}
+
+/**
+ * Rewrite a source path to the label of the parameter it starts with ('$1.name' -> 'customer.name'),
+ * rejecting paths that do not start with a source parameter
+ */
+export function normalizeSourcePath(
+  mapperClass: object,
+  method: string,
+  mapping: MappingOptions,
+  names: string[]
+): string {
+  const source = mapping.source as string;
+  const [head, ...rest] = parsePath(source);
+  const position = typeof head === 'string' ? /^\$(\d+)$/.exec(head) : null;
+  if (position) {
+    return formatPath([getSourceLabel(names, Number(position[1])), ...rest]);
+  }
+  if (names.includes(head as string)) {
+    return source;
+  }
+
+  const named = names.filter(name => name !== undefined);
+  const known = named.length > 0 ? `${named.join(', ')} or a position` : 'a position';
+  throw new Error(
+    `Source "${source}" of ${(mapperClass as { name: string }).name}.${method} (target: ${mapping.target}) must start with a source parameter name: ${known} such as $0. Name parameters with @Source().`
+  );
+}
+
+/**
+ * Find the single source parameter holding a property for auto-matching.
+ * Returns -1 when no source has it and throws when several sources have it.
+ */
+export function findSourceOf(
+  sources: unknown[],
+  key: string,
+  names: string[],
+  location: string
+): number {
+  let found = -1;
+
+  for (let i = 0; i < sources.length; i++) {
+    const source = sources[i];
+    if (source === null || typeof source !== 'object') continue;
+    if (!Object.prototype.propertyIsEnumerable.call(source, key)) continue;
+
+    if (found !== -1) {
+      const owners = [getSourceLabel(names, found), getSourceLabel(names, i)];
+      throw new MappingError(
+        `Ambiguous source property "${key}" in ${location}: found in ${owners.join(' and ')}. Map it explicitly, e.g. @Mapping({ source: '${owners[0]}.${key}', target: '${key}' }).`,
+        [key]
+      );
+    }
+    found = i;
+  }
+
+  return found;
+}
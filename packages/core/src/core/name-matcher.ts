@@ -0,0 +1,79 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import { MappingError } from './errors';
+import { getMapperConfig } from './global-config';
+
+/**
+ * Source keys by normalized name. Names shared by several source keys map to all of them.
+ */
+export type SourceKeyIndex = Map<string, string | string[]>;
+
+/**
+ * Compiled naming strategy: normalizes names, and indexes the keys of source objects
+ */
+export interface NameMatcher {
+  normalize(name: string): string;
+  index(input: object): SourceKeyIndex;
+}
+
+/**
+ * Naming strategy of a mapper method: method (@BeanMapping) over mapper (@Mapper) over global
+ * config. Returns undefined when properties are matched by identical names.
+ */
+export function compileNameMatcher(mapperClass: object, method: string): NameMatcher | undefined {
+  const strategy =
+    metadataStorage.getBeanMapping(mapperClass, method).namingStrategy ??
+    metadataStorage.getMapperOptions(mapperClass).namingStrategy ??
+    getMapperConfig().namingStrategy;
+  if (!strategy) {
+    return undefined;
+  }
+
+  const steps = Array.isArray(strategy) ? strategy : [strategy];
+  // Source objects of one type share their keys, so every name is normalized once
+  const normalized = new Map<string, string>();
+  const normalize = (name: string) => {
+    let result = normalized.get(name);
+    if (result === undefined) {
+      result = steps.reduce((current, step) => step(current), name);
+      normalized.set(name, result);
+    }
+    return result;
+  };
+
+  return {
+    normalize,
+    index(input) {
+      const index: SourceKeyIndex = new Map();
+      for (const key of Object.keys(input)) {
+        const name = normalize(key);
+        const existing = index.get(name);
+        if (existing === undefined) {
+          index.set(name, key);
+        } else {
+          index.set(name, [...(Array.isArray(existing) ? existing : [existing]), key]);
+        }
+      }
+      return index;
+    },
+  };
+}
+
+/**
+ * Source key of an auto-matched target property, or undefined when the source has none.
+ * Throws a MappingError when several source keys have the normalized name of the target.
+ */
+export function findSourceKey(
+  index: SourceKeyIndex,
+  name: string,
+  target: string,
+  location: string
+): string | undefined {
+  const key = index.get(name);
+  if (Array.isArray(key)) {
+    throw new MappingError(
+      `Naming collision in ${location}: source properties ${key.map(k => `"${k}"`).join(', ')} all match target property "${target}" under the naming strategy. Add an explicit @Mapping for "${target}".`,
+      [target]
+    );
+  }
+  return key;
+}
@@ -0,0 +1,43 @@
+/**
+ * Built-in naming strategies. The case style strategies match camelCase, PascalCase,
+ * snake_case and kebab-case names with each other.
+ */
+export const NamingStrategies = {
+  /**
+   * 'fullName', 'FullName' and 'full-name' → 'full_name'
+   */
+  snakeCase: (name: string): string => splitWords(name).join('_'),
+  /**
+   * 'fullName', 'FullName' and 'full_name' → 'full-name'
+   */
+  kebabCase: (name: string): string => splitWords(name).join('-'),
+  /**
+   * 'full_name', 'FullName' and 'full-name' → 'fullName'
+   */
+  camelCase: (name: string): string =>
+    splitWords(name)
+      .map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+      .join(''),
+  /**
+   * 'FullName' → 'fullname'
+   */
+  caseInsensitive: (name: string): string => name.toLowerCase(),
+  /**
+   * Strip the first matching prefix, e.g. stripPrefix('_', 'm_'): '_id' → 'id', 'm_name' → 'name'
+   */
+  stripPrefix:
+    (...prefixes: string[]) =>
+    (name: string): string => {
+      const prefix = prefixes.find(p => name.length > p.length && name.startsWith(p));
+      return prefix ? name.slice(prefix.length) : name;
+    },
+};
+
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
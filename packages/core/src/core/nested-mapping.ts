@@ -0,0 +1,252 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { MapperClass } from '../types/mapper.type';
+import type { MappingOptions } from '../types/mapping.type';
+import {
+  CollectionKind,
+  findFirstElement,
+  getCollectionKind,
+  getCollectionKindOfType,
+  mapCollection,
+} from './collection';
+import { resolveMapper } from './mapper-factory';
+import { getDesignParamTypes, getDesignType } from './design-metadata';
+import { getElementScope, getMappingScope, runInScope } from './mapping-scope';
+import type { Indexable } from './path-accessor';
+
+/**
+ * Converts a nested value through a mapper method.
+ * Returns NO_DELEGATE when no method of the used mappers accepts the value.
+ */
+export interface NestedDelegate {
+  (value: unknown, mapper?: object): unknown;
+  /**
+   * Whether the value is converted, i.e. the delegate does not return NO_DELEGATE for it
+   */
+  matches(value: unknown): boolean;
+}
+
+/**
+ * Mapper instance whose methods are called by name
+ */
+type MapperMethods = Record<string, (value: unknown) => unknown>;
+
+export const NO_DELEGATE: unique symbol = Symbol('NO_DELEGATE');
+
+interface DelegateMethod {
+  mapperClass: MapperClass;
+  method: string;
+  sourceType: unknown;
+  targetType: unknown;
+}
+
+// Types that say nothing about the produced object (collections are matched by element)
+const OPAQUE_TYPES: unknown[] = [Object, Array, Set, Map, Promise, undefined];
+
+/**
+ * Compile the delegate of an explicit @Mapping({ using }) reference.
+ *
+ * 'ProfileMapper.toDto' points to a mapper listed in @Mapper({ uses }),
+ * 'toDto' points to a method of the mapper itself.
+ */
+export function compileUsingDelegate(
+  mapperClass: object,
+  method: string,
+  mapping: MappingOptions
+): NestedDelegate | undefined {
+  if (!mapping.using) {
+    return undefined;
+  }
+
+  const separator = mapping.using.lastIndexOf('.');
+  const methodName = mapping.using.slice(separator + 1);
+
+  if (separator === -1) {
+    assertMethod(mapperClass as MapperClass, methodName, mapperClass, method, mapping);
+    return createDelegate(
+      (value, mapper) => (value == null ? value : (mapper as MapperMethods)[methodName](value)),
+      value => value != null
+    );
+  }
+
+  const mapperName = mapping.using.slice(0, separator);
+  const usedClass = (metadataStorage.getMapperOptions(mapperClass).uses || []).find(
+    used => used.name === mapperName
+  );
+  if (!usedClass) {
+    throw new Error(
+      `Mapper "${mapperName}" referenced by ${(mapperClass as { name: string }).name}.${method} (target: ${mapping.target}) is not listed in @Mapper({ uses }).`
+    );
+  }
+  assertMethod(usedClass, methodName, mapperClass, method, mapping);
+
+  return createDelegate(
+    (value, mapper) =>
+      value == null
+        ? value
+        : (resolveMapper(mapper as object, usedClass) as MapperMethods)[methodName](value),
+    value => value != null
+  );
+}
+
+/**
+ * Compile the delegate that converts a nested value through a matching method of the
+ * used mappers: the method parameter type must be the value's constructor and, when the
+ * target property type is known, the method return type must match it.
+ * Arrays, Sets and Maps are converted element by element.
+ */
+export function compileAutoDelegate(
+  mapperClass: object,
+  outputType: new () => unknown,
+  targetKey: string,
+  sample: Indexable
+): NestedDelegate | undefined {
+  const uses = metadataStorage.getMapperOptions(mapperClass).uses || [];
+  if (uses.length === 0) {
+    return undefined;
+  }
+
+  const targetType = resolveTargetType(outputType, targetKey, sample);
+  const candidates = collectDelegateMethods(uses).filter(
+    candidate => targetType === undefined || candidate.targetType === targetType
+  );
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  const byConstructor = new Map<unknown, DelegateMethod | undefined>();
+  const findCandidate = (constructor: unknown) => {
+    let candidate = byConstructor.get(constructor);
+    if (candidate === undefined && !byConstructor.has(constructor)) {
+      candidate = candidates.find(item => item.sourceType === constructor);
+      byConstructor.set(constructor, candidate);
+    }
+    return candidate;
+  };
+  const findValueCandidate = (value: unknown) => {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    if (getCollectionKind(value)) {
+      const element = findFirstElement(value as Iterable<unknown>);
+      return element === undefined ? undefined : findCandidate((element as object).constructor);
+    }
+    return findCandidate(value.constructor);
+  };
+  const targetKind = resolveTargetCollectionKind(outputType, targetKey, sample);
+
+  return createDelegate(
+    (value, mapper) => {
+      const candidate = findValueCandidate(value);
+      if (!candidate) {
+        return NO_DELEGATE;
+      }
+
+      const usedMapper = resolveMapper(mapper as object, candidate.mapperClass) as MapperMethods;
+      const kind = getCollectionKind(value);
+      if (kind) {
+        // Each element is mapped as a nested object at its own path, e.g. orders[0]
+        const scope = getMappingScope();
+        return mapCollection(
+          value as Iterable<unknown>,
+          (item, key) =>
+            runInScope(getElementScope(scope, key), () => usedMapper[candidate.method](item)),
+          targetKind ?? kind
+        );
+      }
+
+      return usedMapper[candidate.method](value);
+    },
+    value => findValueCandidate(value) !== undefined
+  );
+}
+
+function createDelegate(
+  delegate: (value: unknown, mapper?: object) => unknown,
+  matches: (value: unknown) => boolean
+): NestedDelegate {
+  return Object.assign(delegate, { matches });
+}
+
+function resolveTargetCollectionKind(
+  outputType: new () => unknown,
+  targetKey: string,
+  sample: Indexable
+): CollectionKind | undefined {
+  return (
+    getCollectionKindOfType(
+      getDesignType('design:type', outputType.prototype as object, targetKey)
+    ) ?? getCollectionKind(sample?.[targetKey])
+  );
+}
+
+function resolveTargetType(
+  outputType: new () => unknown,
+  targetKey: string,
+  sample: Indexable
+): unknown {
+  const declared = getDesignType('design:type', outputType.prototype as object, targetKey);
+  if (!OPAQUE_TYPES.includes(declared)) {
+    return declared;
+  }
+
+  const initial = sample?.[targetKey];
+  if (
+    initial !== null &&
+    typeof initial === 'object' &&
+    !OPAQUE_TYPES.includes(initial.constructor)
+  ) {
+    return initial.constructor;
+  }
+
+  return undefined;
+}
+
+function collectDelegateMethods(uses: MapperClass[]): DelegateMethod[] {
+  const methods: DelegateMethod[] = [];
+
+  for (const mapperClass of uses) {
+    // Condition and lifecycle methods are not mapping methods
+    const seen = new Set<string>([
+      ...metadataStorage.getConditionMethods(mapperClass),
+      ...metadataStorage.getLifecycleMethods(mapperClass, 'before').map(hook => hook.method),
+      ...metadataStorage.getLifecycleMethods(mapperClass, 'after').map(hook => hook.method),
+    ]);
+    let prototype = mapperClass.prototype;
+
+    while (prototype && prototype !== Object.prototype) {
+      for (const method of Object.getOwnPropertyNames(prototype)) {
+        if (method === 'constructor' || seen.has(method)) continue;
+        seen.add(method);
+
+        const paramTypes = getDesignParamTypes(prototype, method);
+        const returnType = getDesignType('design:returntype', prototype, method);
+        const sourceType = paramTypes?.[0];
+        // Async methods declare their target type with @BeanMapping({ resultType })
+        const targetType =
+          returnType === Promise
+            ? metadataStorage.getBeanMapping(mapperClass, method).resultType
+            : returnType;
+
+        if (OPAQUE_TYPES.includes(sourceType) || OPAQUE_TYPES.includes(targetType)) continue;
+        methods.push({ mapperClass, method, sourceType, targetType });
+      }
+      prototype = Object.getPrototypeOf(prototype);
+    }
+  }
+
+  return methods;
+}
+
+function assertMethod(
+  usedClass: MapperClass,
+  methodName: string,
+  mapperClass: object,
+  method: string,
+  mapping: MappingOptions
+): void {
+  if (typeof usedClass.prototype[methodName] !== 'function') {
+    throw new Error(
+      `Method "${mapping.using}" referenced by ${(mapperClass as { name: string }).name}.${method} (target: ${mapping.target}) does not exist.`
+    );
+  }
+}
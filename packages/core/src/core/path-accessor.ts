@@ -0,0 +1,194 @@
+import { MappingError } from './errors';
+
+/**
+ * Compiled reader for a (possibly nested) property path
+ */
+export type PathGetter = (obj: unknown) => unknown;
+
+/**
+ * Compiled writer for a (possibly nested) property path
+ */
+export type PathSetter = (obj: object, value: unknown) => void;
+
+/**
+ * Segment of a parsed path: a property name, an array index or the [*] wildcard
+ */
+export type PathSegment = string | number | typeof WILDCARD;
+
+export const WILDCARD: unique symbol = Symbol('WILDCARD');
+
+/**
+ * Object whose properties are read and written by name or index
+ */
+export type Indexable = Record<string | number, unknown>;
+
+/**
+ * Parse a property path. Supported syntax:
+ * - 'profile.bio': property names separated by dots
+ * - 'items[0].sku': array indices
+ * - 'addresses[*].city': wildcards, reading the rest of the path from every element
+ * - "meta['content.type']": quoted property names, with \' \" and \\ escapes
+ *
+ * Throws for malformed paths such as 'a..b', 'items[x]' or "meta['a".
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let i = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Malformed path "${path}": ${reason} at position ${i}.`);
+  };
+
+  const readName = () => {
+    const start = i;
+    while (i < path.length && !'.[]'.includes(path[i])) i++;
+    if (i === start) fail('expected a property name');
+    segments.push(path.slice(start, i));
+  };
+
+  const readBracket = () => {
+    i++;
+    const quote = path[i];
+    if (quote === "'" || quote === '"') {
+      let name = '';
+      for (i++; path[i] !== quote; i++) {
+        if (i >= path.length) fail('unterminated quoted property name');
+        if (path[i] === '\\') i++;
+        if (i >= path.length) fail('unterminated quoted property name');
+        name += path[i];
+      }
+      i++;
+      segments.push(name);
+    } else if (quote === '*') {
+      i++;
+      segments.push(WILDCARD);
+    } else {
+      const match = /^\d+/.exec(path.slice(i));
+      if (!match) return fail("expected an index, '*' or a quoted property name");
+      i += match[0].length;
+      segments.push(Number(match[0]));
+    }
+    if (path[i] !== ']') fail("expected ']'");
+    i++;
+  };
+
+  if (path[0] === '[') readBracket();
+  else readName();
+
+  while (i < path.length) {
+    if (path[i] === '.') {
+      i++;
+      readName();
+    } else if (path[i] === '[') {
+      readBracket();
+    } else {
+      fail("expected '.' or '['");
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Canonical form of a parsed path: "meta['content.type']" and "meta[\"content.type\"]"
+ * both format as "meta['content.type']", 'profile.bio' and "['profile'].bio" as 'profile.bio'
+ */
+export function formatPath(segments: PathSegment[]): string {
+  let path = '';
+  for (const segment of segments) {
+    if (segment === WILDCARD) {
+      path += '[*]';
+    } else if (typeof segment === 'number') {
+      path += `[${segment}]`;
+    } else if (segment !== '' && !/[.[\]'"\\]/.test(segment)) {
+      path += path ? `.${segment}` : segment;
+    } else {
+      path += `['${segment.replace(/['\\]/g, '\\$&')}']`;
+    }
+  }
+  return path;
+}
+
+/**
+ * Compile a path into a reader function.
+ * The path is parsed once, so reading does not re-parse the path on every call.
+ * A wildcard reads the rest of the path from every element of an array into a new array,
+ * and reads undefined from anything else.
+ */
+export function compileGetter(path: string): PathGetter {
+  const keys = parsePath(path);
+
+  if (keys.includes(WILDCARD)) {
+    return obj => readSegments(obj, keys, 0);
+  }
+
+  if (keys.length === 1) {
+    const [key] = keys as Array<string | number>;
+    return obj => (obj as Indexable | undefined)?.[key];
+  }
+
+  if (keys.length === 2) {
+    const [first, second] = keys as Array<string | number>;
+    return obj => ((obj as Indexable | undefined)?.[first] as Indexable | undefined)?.[second];
+  }
+
+  return obj => {
+    let current = obj;
+    for (let i = 0; i < keys.length; i++) {
+      current = (current as Indexable | undefined)?.[keys[i] as string | number];
+    }
+    return current;
+  };
+}
+
+/**
+ * Compile a path into a writer function.
+ * Missing (null or undefined) intermediate values are created on write: an array when the next
+ * segment is an index, a plain object otherwise. Writing through a primitive intermediate value
+ * throws a MappingError. Wildcards cannot be written.
+ */
+export function compileSetter(path: string): PathSetter {
+  const keys = parsePath(path);
+  if (keys.includes(WILDCARD)) {
+    throw new Error(`Cannot write to "${path}": wildcards are only supported in source paths.`);
+  }
+  const lastKey = keys.pop() as string | number;
+
+  if (keys.length === 0) {
+    return (obj, value) => {
+      (obj as Indexable)[lastKey] = value;
+    };
+  }
+
+  return (obj, value) => {
+    let current = obj as Indexable;
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i] as string | number;
+      let next = current[key];
+      if (next === null || next === undefined) {
+        next = current[key] = typeof (keys[i + 1] ?? lastKey) === 'number' ? [] : {};
+      } else if (typeof next !== 'object' && typeof next !== 'function') {
+        throw new MappingError(
+          `Cannot write to "${path}": "${formatPath(keys.slice(0, i + 1))}" is a ${typeof next}, not an object.`,
+          [path]
+        );
+      }
+      current = next as Indexable;
+    }
+    current[lastKey] = value;
+  };
+}
+
+function readSegments(obj: unknown, keys: PathSegment[], start: number): unknown {
+  let current = obj;
+  for (let i = start; i < keys.length; i++) {
+    const key = keys[i];
+    if (key === WILDCARD) {
+      return Array.isArray(current)
+        ? current.map(element => readSegments(element, keys, i + 1))
+        : undefined;
+    }
+    current = (current as Indexable | undefined)?.[key];
+  }
+  return current;
+}
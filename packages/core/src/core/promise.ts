@@ -0,0 +1,34 @@
+/**
+ * Whether a value is a promise or another thenable
+ */
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as PromiseLike<unknown>).then === 'function'
+  );
+}
+
+/**
+ * Call fn for every item with at most `concurrency` calls pending at a time.
+ * Results keep the order of the items.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  fn: (item: T) => R | PromiseLike<R>,
+  concurrency = Infinity
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
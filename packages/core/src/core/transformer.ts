@@ -1,58 +1,117 @@
-import { metadataStorage } from '../metadata/metadata.storage';
-import type { MappingOptions } from '../types/mapping.type';
+import { getAsyncMappingPlan, getMappingPlan } from './mapping-plan';
 
-// 支持嵌套路径读取
-function getValue(obj: any, path: string): any {
-  return path.split('.').reduce((acc, key) => acc?.[key], obj);
+/**
+ * Map input into a new instance of outputType using the mapping metadata of mapper[method].
+ * The mapping plan is compiled on first use and cached per (mapper, method, outputType).
+ */
+export function transform<TInput, TOutput>(
+  mapper: object,
+  method: string,
+  input: TInput,
+  outputType: new () => TOutput
+): TOutput {
+  return getMappingPlan<TInput, TOutput>(mapper.constructor, method, outputType)(input, mapper);
 }
 
-// 支持嵌套路径赋值
-function setValue(obj: any, path: string, value: any) {
-  const keys = path.split('.');
-  const lastKey = keys.pop()!;
-  const target = keys.reduce((acc, key) => (acc[key] ??= {}), obj);
-  target[lastKey] = value;
+/**
+ * Async variant of transform(): async converters, nested mapper methods returning promises
+ * and async @BeforeMapping() / @AfterMapping() methods are awaited.
+ * Converters of different properties run concurrently.
+ */
+export function transformAsync<TInput, TOutput>(
+  mapper: object,
+  method: string,
+  input: TInput,
+  outputType: new () => TOutput
+): Promise<TOutput> {
+  return getAsyncMappingPlan<TInput, TOutput>(
+    mapper.constructor,
+    method,
+    outputType
+  )(input, mapper);
 }
 
-export function transform<TInput, TOutput>(
-  mapper: any,
+/**
+ * Map the source parameters of a multi-source method, e.g. toOrderDto(order, customer),
+ * into a new instance of outputType. Source paths start with the parameter name given with
+ * @Source() or with its position ('$0', '$1', ...); auto-matching looks into every source.
+ */
+export function transformSources<TOutput>(
+  mapper: object,
   method: string,
-  input: TInput,
+  sources: unknown[],
+  outputType: new () => TOutput
+): TOutput {
+  return getMappingPlan<unknown[], TOutput>(
+    mapper.constructor,
+    method,
+    outputType,
+    true
+  )(sources, mapper);
+}
+
+/**
+ * Async variant of transformSources(), see transformAsync()
+ */
+export function transformSourcesAsync<TOutput>(
+  mapper: object,
+  method: string,
+  sources: unknown[],
   outputType: new () => TOutput
+): Promise<TOutput> {
+  return getAsyncMappingPlan<unknown[], TOutput>(
+    mapper.constructor,
+    method,
+    outputType,
+    true
+  )(sources, mapper);
+}
+
+/**
+ * Map input onto an existing target instance using the mapping metadata of mapper[method],
+ * e.g. to apply a PATCH body to a loaded entity. Properties without a mapped value are left
+ * untouched; null and undefined values follow the nullValuePropertyStrategy.
+ * The plan is compiled against the target's class.
+ */
+export function transformInto<TInput, TOutput extends object>(
+  mapper: object,
+  method: string,
+  input: TInput,
+  target: TOutput
 ): TOutput {
-  const output = new outputType();
-  const mappings: MappingOptions[] = metadataStorage.getMappings(mapper.constructor, method);
+  assertTarget(mapper, method, target);
 
-  const usedTargetKeys = new Set<string>();
+  const outputType = target.constructor as new () => TOutput;
+  return getMappingPlan<TInput, TOutput>(mapper.constructor, method, outputType)(
+    input,
+    mapper,
+    target
+  );
+}
 
-  // 1️⃣ 显式字段映射
-  for (const mapping of mappings) {
-    const value = getValue(input, mapping.source);
-    setValue(output, mapping.target, value);
-    usedTargetKeys.add(mapping.target);
-  }
+/**
+ * Async variant of transformInto(), see transformAsync()
+ */
+export async function transformIntoAsync<TInput, TOutput extends object>(
+  mapper: object,
+  method: string,
+  input: TInput,
+  target: TOutput
+): Promise<TOutput> {
+  assertTarget(mapper, method, target);
 
-  // 2️⃣ 自动字段匹配（字段名一致 + typeof 一致）
-  const inputKeys = Object.keys(input || {});
-  const outputKeys = new Set([
-    ...Object.getOwnPropertyNames(output),
-    ...Object.getOwnPropertyNames(Object.getPrototypeOf(output)),
-  ]);
-
-  for (const key of inputKeys) {
-    if (outputKeys.has(key) && !usedTargetKeys.has(key)) {
-      const inputValue = (input as any)[key];
-      const outputValue = (output as any)[key];
-
-      const inputType = typeof inputValue;
-      const outputTypeGuess = typeof outputValue;
-
-      // 若输出初始值是 undefined，则只检查 input 是否为 object、number、string 等合理值
-      if (outputValue === undefined || inputType === outputTypeGuess) {
-        (output as any)[key] = inputValue;
-      }
-    }
-  }
+  const outputType = target.constructor as new () => TOutput;
+  return getAsyncMappingPlan<TInput, TOutput>(mapper.constructor, method, outputType)(
+    input,
+    mapper,
+    target
+  );
+}
 
-  return output;
+function assertTarget(mapper: object, method: string, target: unknown): void {
+  if (target === null || typeof target !== 'object') {
+    throw new Error(
+      `transformInto() requires an existing target object (method: ${mapper.constructor.name}.${method}).`
+    );
+  }
 }
@@ -0,0 +1,263 @@
+import type { ConversionOptions } from '../types/mapping.type';
+import { getDesignType } from './design-metadata';
+
+/**
+ * Converts a value into the target type, or returns NOT_CONVERTIBLE when the value
+ * cannot be represented in it (e.g. 'abc' to number)
+ */
+export type ConversionFn<TSource = unknown, TTarget = unknown> = (
+  value: TSource,
+  options: ConversionOptions
+) => TTarget | typeof NOT_CONVERTIBLE;
+
+/**
+ * Value type of a conversion: a class, or String, Number, Boolean and BigInt for primitives
+ */
+export type ValueType =
+  | (abstract new (...args: never[]) => unknown)
+  | ((...args: never[]) => unknown);
+
+export const NOT_CONVERTIBLE: unique symbol = Symbol('NOT_CONVERTIBLE');
+
+type ConversionRegistry = Map<unknown, Map<unknown, ConversionFn>>;
+
+let conversions: ConversionRegistry = createBuiltInConversions();
+
+/**
+ * Register a conversion used when a source value of sourceType is mapped to a target
+ * property of targetType, replacing any conversion registered for the same pair
+ */
+export function registerConversion<TSource, TTarget>(
+  sourceType: ValueType,
+  targetType: ValueType,
+  conversion: ConversionFn<TSource, TTarget>
+): void {
+  addConversion(conversions, sourceType, targetType, conversion);
+}
+
+/**
+ * Drop custom conversions and restore the built-in ones
+ */
+export function resetConversions(): void {
+  conversions = createBuiltInConversions();
+}
+
+/**
+ * Value type of a runtime value, undefined for null and undefined
+ */
+export function getValueType(value: unknown): unknown {
+  switch (typeof value) {
+    case 'string':
+      return String;
+    case 'number':
+      return Number;
+    case 'boolean':
+      return Boolean;
+    case 'bigint':
+      return BigInt;
+    case 'object':
+      return value === null ? undefined : (value as object).constructor;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Value type of a target property: its design:type, else the type of its initial value.
+ * Object (e.g. from union types) counts as unknown.
+ */
+export function resolveConversionTargetType(
+  outputType: new () => unknown,
+  targetKey: string,
+  initialValue: unknown
+): unknown {
+  const declared = getDesignType('design:type', outputType.prototype, targetKey);
+  const type = declared ?? getValueType(initialValue);
+  return type === Object ? undefined : type;
+}
+
+/**
+ * Convert a value into targetType through the registered conversions.
+ * Returns NOT_CONVERTIBLE when no conversion applies or the conversion fails.
+ */
+export function convertValue(
+  value: unknown,
+  targetType: unknown,
+  options: ConversionOptions = {}
+): unknown {
+  const conversion = findConversion(value, targetType);
+  return conversion ? conversion(value, options) : NOT_CONVERTIBLE;
+}
+
+/**
+ * Registered conversion of a value into targetType, undefined when none applies
+ */
+export function findConversion(value: unknown, targetType: unknown): ConversionFn | undefined {
+  // Subclasses (e.g. of Date) use the conversions of their parents
+  for (
+    let sourceType = getValueType(value);
+    sourceType && sourceType !== Object;
+    sourceType = Object.getPrototypeOf((sourceType as ValueType).prototype)?.constructor
+  ) {
+    const conversion = conversions.get(sourceType)?.get(targetType);
+    if (conversion) {
+      return conversion;
+    }
+  }
+  return undefined;
+}
+
+function addConversion<TSource, TTarget>(
+  registry: ConversionRegistry,
+  sourceType: unknown,
+  targetType: unknown,
+  conversion: ConversionFn<TSource, TTarget>
+): void {
+  let targets = registry.get(sourceType);
+  if (!targets) {
+    targets = new Map();
+    registry.set(sourceType, targets);
+  }
+  // Looked up by the type of the value, so the conversion receives a TSource
+  targets.set(targetType, conversion as ConversionFn);
+}
+
+function createBuiltInConversions(): ConversionRegistry {
+  const registry: ConversionRegistry = new Map();
+  const add = <TSource, TTarget>(
+    sourceType: unknown,
+    targetType: unknown,
+    conversion: ConversionFn<TSource, TTarget>
+  ) => addConversion(registry, sourceType, targetType, conversion);
+
+  // Date
+  add(Date, String, (date: Date, { dateFormat }) =>
+    isNaN(date.getTime()) ? NOT_CONVERTIBLE : formatDate(date, dateFormat)
+  );
+  add(String, Date, (text: string, { dateFormat }) => parseDate(text, dateFormat));
+  add(Date, Number, (date: Date) => (isNaN(date.getTime()) ? NOT_CONVERTIBLE : date.getTime()));
+  add(Number, Date, (time: number) => (Number.isFinite(time) ? new Date(time) : NOT_CONVERTIBLE));
+
+  // number
+  add(Number, String, (value: number, { numberFormat }) => formatNumber(value, numberFormat));
+  add(String, Number, (text: string, { numberFormat }) => parseNumber(text, numberFormat));
+
+  // bigint
+  add(BigInt, String, (value: bigint) => value.toString());
+  add(String, BigInt, (text: string) =>
+    /^\s*-?\d+\s*$/.test(text) ? BigInt(text.trim()) : NOT_CONVERTIBLE
+  );
+  add(BigInt, Number, (value: bigint) => {
+    const number = Number(value);
+    return Number.isSafeInteger(number) ? number : NOT_CONVERTIBLE;
+  });
+  add(Number, BigInt, (value: number) =>
+    Number.isInteger(value) ? BigInt(value) : NOT_CONVERTIBLE
+  );
+
+  // boolean
+  add(Boolean, String, (value: boolean, { booleanFormat }) => {
+    const [trueText, falseText] = getBooleanTexts(booleanFormat);
+    return value ? trueText : falseText;
+  });
+  add(String, Boolean, (text: string, { booleanFormat }) => {
+    const [trueText, falseText] = getBooleanTexts(booleanFormat);
+    const normalized = text.trim().toLowerCase();
+    if (normalized === trueText.toLowerCase()) return true;
+    if (normalized === falseText.toLowerCase()) return false;
+    return NOT_CONVERTIBLE;
+  });
+  add(Boolean, Number, (value: boolean) => (value ? 1 : 0));
+  add(Number, Boolean, (value: number) =>
+    value === 1 ? true : value === 0 ? false : NOT_CONVERTIBLE
+  );
+
+  return registry;
+}
+
+const DATE_TOKENS = /yyyy|MM|dd|HH|mm|ss|SSS/g;
+
+function formatDate(date: Date, format?: string): string {
+  if (!format) {
+    return date.toISOString();
+  }
+
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const parts: Record<string, string> = {
+    yyyy: pad(date.getUTCFullYear(), 4),
+    MM: pad(date.getUTCMonth() + 1),
+    dd: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+    SSS: pad(date.getUTCMilliseconds(), 3),
+  };
+  return format.replace(DATE_TOKENS, token => parts[token]);
+}
+
+function parseDate(text: string, format?: string): Date | typeof NOT_CONVERTIBLE {
+  if (!format) {
+    const date = new Date(text);
+    return text.trim() === '' || isNaN(date.getTime()) ? NOT_CONVERTIBLE : date;
+  }
+
+  const tokens: string[] = [];
+  const source = format.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(DATE_TOKENS, token => {
+    tokens.push(token);
+    return `(\\d{${token.length}})`;
+  });
+
+  const match = new RegExp(`^${source}$`).exec(text.trim());
+  if (!match) {
+    return NOT_CONVERTIBLE;
+  }
+
+  const value = (token: string, fallback: number) => {
+    const index = tokens.indexOf(token);
+    return index === -1 ? fallback : Number(match[index + 1]);
+  };
+  const date = new Date(
+    Date.UTC(
+      value('yyyy', 1970),
+      value('MM', 1) - 1,
+      value('dd', 1),
+      value('HH', 0),
+      value('mm', 0),
+      value('ss', 0),
+      value('SSS', 0)
+    )
+  );
+  return isNaN(date.getTime()) ? NOT_CONVERTIBLE : date;
+}
+
+/**
+ * Number pattern: ',' in the integer part enables grouping, '0' and '#' after the
+ * decimal point give the minimum and maximum fraction digits
+ */
+function formatNumber(value: number, format?: string): string {
+  if (!format) {
+    return String(value);
+  }
+
+  const [integerPart, fractionPart = ''] = format.split('.');
+  return value.toLocaleString('en-US', {
+    useGrouping: integerPart.includes(','),
+    minimumFractionDigits: (fractionPart.match(/0/g) || []).length,
+    maximumFractionDigits: fractionPart.length,
+  });
+}
+
+function parseNumber(text: string, format?: string): number | typeof NOT_CONVERTIBLE {
+  const normalized = (format?.includes(',') ? text.replace(/,/g, '') : text).trim();
+  if (normalized === '') {
+    return NOT_CONVERTIBLE;
+  }
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : NOT_CONVERTIBLE;
+}
+
+function getBooleanTexts(format = 'true/false'): [string, string] {
+  const [trueText, falseText = ''] = format.split('/');
+  return [trueText, falseText];
+}
@@ -0,0 +1,169 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { ReportingPolicy } from '../types/mapper.type';
+import type { MappingOptions } from '../types/mapping.type';
+import { MappingError } from './errors';
+import { getMapperConfig, getMapperLogger } from './global-config';
+import { getSourceArguments, getSourceLabel } from './multi-source';
+import { Indexable, parsePath } from './path-accessor';
+
+/**
+ * Reports the properties left unmapped by one mapping call.
+ * matchedKeys are the auto-matched target keys that received a value, and the source keys
+ * they were read from under another name (naming strategies and flattening).
+ */
+export type UnmappedReporter = (input: unknown, matchedKeys: string[]) => void;
+
+type PolicyName = 'unmappedTargetPolicy' | 'unmappedSourcePolicy';
+
+/**
+ * Resolve a reporting policy: method (@BeanMapping) over mapper (@Mapper) over global config
+ */
+export function resolvePolicy(
+  mapperClass: object,
+  method: string,
+  name: PolicyName
+): ReportingPolicy {
+  return (
+    metadataStorage.getBeanMapping(mapperClass, method)[name] ??
+    metadataStorage.getMapperOptions(mapperClass)[name] ??
+    getMapperConfig()[name] ??
+    'ignore'
+  );
+}
+
+/**
+ * Compile the unmapped property reporter of a mapper method,
+ * or undefined when both policies are 'ignore'. Each distinct warning is logged once,
+ * errors are thrown on every call.
+ * Multi-source methods pass their source parameter names; their source properties
+ * are then reported as 'parameter.property'.
+ */
+export function compileUnmappedReporter(
+  mapperClass: object,
+  method: string,
+  mappings: MappingOptions[],
+  autoKeys: string[],
+  sample: Indexable,
+  sourceNames?: string[]
+): UnmappedReporter | undefined {
+  const targetPolicy = resolvePolicy(mapperClass, method, 'unmappedTargetPolicy');
+  const sourcePolicy = resolvePolicy(mapperClass, method, 'unmappedSourcePolicy');
+  if (targetPolicy === 'ignore' && sourcePolicy === 'ignore') {
+    return undefined;
+  }
+
+  // Explicit targets such as 'profile.bio' count as a mapping of 'profile'
+  const explicitTargets = new Set(mappings.map(mapping => String(parsePath(mapping.target)[0])));
+  const targetKeys = autoKeys.filter(
+    key => !explicitTargets.has(key) && isDataProperty(sample, key)
+  );
+
+  // Multi-source paths are read at the property level: 'customer.fullName'
+  const readDepth = sourceNames ? 2 : 1;
+  const readSources = new Set([
+    ...mappings.flatMap(mapping =>
+      mapping.source ? [getReadPath(mapping.source, readDepth)] : []
+    ),
+    ...(metadataStorage.getBeanMapping(mapperClass, method).ignoreUnmappedSourceProperties || []),
+  ]);
+
+  const location = `${(mapperClass as { name: string }).name}.${method}`;
+  // Warnings are logged once per plan, not for every mapped row
+  const warned = new Set<string>();
+
+  return (input, matchedKeys) => {
+    if (input === null || input === undefined) {
+      return;
+    }
+
+    const matched = new Set(matchedKeys);
+    const errors: string[] = [];
+    const fields: string[] = [];
+
+    const report = (policy: ReportingPolicy, kind: string, keys: string[]) => {
+      if (policy === 'ignore' || keys.length === 0) return;
+
+      const message = `Unmapped ${kind} properties in ${location}: ${keys.join(', ')}`;
+      if (policy === 'warn') {
+        if (warned.has(message)) return;
+        warned.add(message);
+        getMapperLogger().warn(message);
+      } else {
+        errors.push(message);
+        fields.push(...keys);
+      }
+    };
+
+    report(
+      targetPolicy,
+      'target',
+      targetKeys.filter(key => !matched.has(key))
+    );
+    report(
+      sourcePolicy,
+      'source',
+      sourceNames
+        ? getUnreadSourceParameterKeys(input as Indexable, sourceNames, readSources, matched)
+        : Object.keys(input).filter(key => !readSources.has(key) && !matched.has(key))
+    );
+
+    if (errors.length > 0) {
+      throw new MappingError(errors.join('. '), fields);
+    }
+  };
+}
+
+/**
+ * Leading property names of a source path, as 'parameter.property' for multi-source paths
+ */
+function getReadPath(source: string, depth: number): string {
+  const names: string[] = [];
+  for (const segment of parsePath(source).slice(0, depth)) {
+    if (typeof segment === 'symbol') break;
+    names.push(String(segment));
+  }
+  return names.join('.');
+}
+
+/**
+ * Unread properties of the parameters of a multi-source call, as 'parameter.property'
+ */
+function getUnreadSourceParameterKeys(
+  sourceObject: Indexable,
+  sourceNames: string[],
+  readSources: Set<string>,
+  matched: Set<string>
+): string[] {
+  const keys: string[] = [];
+
+  getSourceArguments(sourceObject).forEach((source, index) => {
+    const label = getSourceLabel(sourceNames, index);
+    if (source === null || typeof source !== 'object' || readSources.has(label)) return;
+
+    for (const key of Object.keys(source)) {
+      const path = `${label}.${key}`;
+      if (!readSources.has(path) && !matched.has(key)) keys.push(path);
+    }
+  });
+
+  return keys;
+}
+
+/**
+ * Whether a key of the output is a data property rather than a method or the constructor
+ */
+function isDataProperty(sample: Indexable, key: string): boolean {
+  if (key === 'constructor') {
+    return false;
+  }
+  if (Object.prototype.hasOwnProperty.call(sample, key)) {
+    return typeof sample[key] !== 'function';
+  }
+  const descriptor = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(sample), key);
+  if (!descriptor) {
+    return false;
+  }
+  return descriptor.get || descriptor.set
+    ? descriptor.set !== undefined
+    : typeof descriptor.value !== 'function';
+}
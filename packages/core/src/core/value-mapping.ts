@@ -0,0 +1,193 @@
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { EnumMappingOptions, ValueMap, ValueMappingOptions } from '../types/mapping.type';
+import { MappingError } from './errors';
+import { MappingConstants } from './mapping-constants';
+
+/**
+ * Maps one source value to its target value
+ */
+export type ValueMapper = (value: unknown) => unknown;
+
+let valueMapperCache = new WeakMap<object, Map<string, ValueMapper>>();
+let valueMapperCacheVersion = metadataStorage.version;
+
+/**
+ * Map a single value, e.g. a status code or an enum member, through the
+ * @ValueMapping and @EnumMapping declarations of mapper[method]
+ */
+export function mapValue<TTarget = unknown>(
+  mapper: object,
+  method: string,
+  value: unknown
+): TTarget {
+  return getValueMapper(mapper.constructor, method)(value) as TTarget;
+}
+
+/**
+ * Whether createMapperProxy should auto-implement mapper[method] as a value mapping
+ */
+export function isValueMappingMethod(mapperClass: object, method: string): boolean {
+  return (
+    metadataStorage.getValueMappings(mapperClass, method).length > 0 ||
+    metadataStorage.getEnumMapping(mapperClass, method) !== undefined
+  );
+}
+
+/**
+ * Check that every member of an @EnumMapping source enum is mapped.
+ * Runs when @Mapper() is applied, so incomplete mappings fail at startup.
+ */
+export function validateValueMappings(mapperClass: object): void {
+  for (const method of metadataStorage.getValueMappingMethods(mapperClass)) {
+    const enumMapping = metadataStorage.getEnumMapping(mapperClass, method);
+    if (!enumMapping) continue;
+
+    const mappings = metadataStorage.getValueMappings(mapperClass, method);
+    const sources = new Set(mappings.map(mapping => mapping.source));
+    if (sources.has(MappingConstants.ANY_REMAINING) || sources.has(MappingConstants.ANY_UNMAPPED)) {
+      continue;
+    }
+
+    const targetNames = new Set(
+      enumMapping.targetEnum ? getEnumMembers(enumMapping.targetEnum).map(([name]) => name) : []
+    );
+    const missing = getEnumMembers(enumMapping.sourceEnum)
+      .filter(([name, value]) => !sources.has(value) && !targetNames.has(name))
+      .map(([name]) => name);
+
+    if (missing.length > 0) {
+      throw new Error(
+        `Incomplete value mapping in ${(mapperClass as { name: string }).name}.${method}: source enum members ${missing.join(', ')} are not mapped. Add @ValueMapping entries for them or a MappingConstants.ANY_REMAINING fallback.`
+      );
+    }
+  }
+}
+
+/**
+ * Compile the value map of a @Mapping({ values }); number keys match number source values
+ */
+export function compileValueMap(values: ValueMap, location: string): ValueMapper {
+  const mappings: ValueMappingOptions[] = [
+    ...Object.keys(values).map(source => ({ source, target: values[source] })),
+    ...Object.getOwnPropertySymbols(values).map(source => ({
+      source,
+      target: values[source],
+    })),
+  ];
+  const mapValueKey = compileValueMapper(mappings, location);
+
+  return value =>
+    typeof value === 'number' || typeof value === 'bigint'
+      ? mapValueKey(String(value))
+      : mapValueKey(value);
+}
+
+/**
+ * Compile value mappings into a lookup function.
+ *
+ * Resolution order: null / undefined (MappingConstants.NULL source, else passed through),
+ * explicit mappings, same-named target enum members, then the ANY_REMAINING / ANY_UNMAPPED
+ * fallback. Anything else throws a MappingError.
+ */
+export function compileValueMapper(
+  mappings: ValueMappingOptions[],
+  location: string,
+  enumMapping?: EnumMappingOptions
+): ValueMapper {
+  const targets = new Map<unknown, unknown>();
+  let nullMapping: ValueMappingOptions | undefined;
+  let fallback: ValueMappingOptions | undefined;
+
+  for (const mapping of mappings) {
+    if (mapping.source === MappingConstants.NULL) {
+      nullMapping = mapping;
+    } else if (
+      mapping.source === MappingConstants.ANY_REMAINING ||
+      mapping.source === MappingConstants.ANY_UNMAPPED
+    ) {
+      fallback = mapping;
+    } else {
+      targets.set(mapping.source, mapping.target);
+    }
+  }
+
+  // ANY_UNMAPPED also covers enum members that have a same-named target member
+  const sameNameTargets =
+    enumMapping?.targetEnum && fallback?.source !== MappingConstants.ANY_UNMAPPED
+      ? compileSameNameTargets(enumMapping.sourceEnum, enumMapping.targetEnum)
+      : undefined;
+
+  const resolve = (value: unknown, target: unknown) => {
+    if (target === MappingConstants.NULL) return null;
+    if (target === MappingConstants.THROW) {
+      throw new MappingError(`Value "${String(value)}" cannot be mapped by ${location}.`);
+    }
+    return target;
+  };
+
+  return value => {
+    if (value === null || value === undefined) {
+      return nullMapping ? resolve(value, nullMapping.target) : value;
+    }
+    if (targets.has(value)) {
+      return resolve(value, targets.get(value));
+    }
+    if (sameNameTargets?.has(value)) {
+      return sameNameTargets.get(value);
+    }
+    if (fallback) {
+      return resolve(value, fallback.target);
+    }
+
+    throw new MappingError(
+      `Unmapped value "${String(value)}" in ${location}. Add a @ValueMapping for it or a MappingConstants.ANY_REMAINING fallback.`
+    );
+  };
+}
+
+function getValueMapper(mapperClass: object, method: string): ValueMapper {
+  if (valueMapperCacheVersion !== metadataStorage.version) {
+    valueMapperCache = new WeakMap();
+    valueMapperCacheVersion = metadataStorage.version;
+  }
+
+  let methods = valueMapperCache.get(mapperClass);
+  if (!methods) {
+    methods = new Map();
+    valueMapperCache.set(mapperClass, methods);
+  }
+
+  let valueMapper = methods.get(method);
+  if (!valueMapper) {
+    valueMapper = compileValueMapper(
+      metadataStorage.getValueMappings(mapperClass, method),
+      `${(mapperClass as { name: string }).name}.${method}`,
+      metadataStorage.getEnumMapping(mapperClass, method)
+    );
+    methods.set(method, valueMapper);
+  }
+
+  return valueMapper;
+}
+
+function compileSameNameTargets(sourceEnum: object, targetEnum: object): Map<unknown, unknown> {
+  const targetMembers = new Map(getEnumMembers(targetEnum));
+  const targets = new Map<unknown, unknown>();
+
+  for (const [name, value] of getEnumMembers(sourceEnum)) {
+    if (targetMembers.has(name)) targets.set(value, targetMembers.get(name));
+  }
+  return targets;
+}
+
+/**
+ * Members of a TypeScript enum as [name, value], without the reverse entries of numeric enums
+ */
+function getEnumMembers(enumObject: object): Array<[string, unknown]> {
+  return Object.entries(enumObject).filter(
+    ([name, value]) =>
+      !(
+        typeof value === 'string' && (enumObject as Record<string, unknown>)[value] === Number(name)
+      )
+  );
+}
@@ -0,0 +1,18 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { MappingHookOptions } from '../types/mapping.type';
+
+/**
+ * Marks a mapper method that runs after every mapping of the mapper has written the target,
+ * e.g. to fill in properties computed from several others. It is called with
+ * (source, target, context).
+ */
+export function AfterMapping(options: MappingHookOptions = {}): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerLifecycleMethod(target.constructor, {
+      method: propertyKey as string,
+      phase: 'after',
+      options,
+    });
+  };
+}
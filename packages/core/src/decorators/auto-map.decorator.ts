@@ -0,0 +1,13 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+
+/**
+ * Marks a mapper method as auto-implemented: createMapperProxy() calls the mapping declared
+ * by its decorators, parameter and return types instead of the method body.
+ * As a decorator it also makes TypeScript emit those types.
+ */
+export function AutoMap(): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerAutoMap(target.constructor, propertyKey as string);
+  };
+}
@@ -0,0 +1,9 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { BeanMappingOptions } from '../types/mapping.type';
+
+export function BeanMapping(options: BeanMappingOptions): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerBeanMapping(target.constructor, propertyKey as string, options);
+  };
+}
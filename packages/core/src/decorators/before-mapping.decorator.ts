@@ -0,0 +1,18 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { MappingHookOptions } from '../types/mapping.type';
+
+/**
+ * Marks a mapper method that runs before the properties of every mapping of the mapper are
+ * written. It is called with (source, target, context), where target is the new or updated
+ * target object.
+ */
+export function BeforeMapping(options: MappingHookOptions = {}): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerLifecycleMethod(target.constructor, {
+      method: propertyKey as string,
+      phase: 'before',
+      options,
+    });
+  };
+}
@@ -0,0 +1,13 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+
+/**
+ * Marks a mapper method as a condition, e.g. isNotEmpty(value: string): boolean.
+ * It is called with (value, source) for every mapped property whose value has the type of
+ * its first parameter; returning false leaves the target property untouched.
+ */
+export function Condition(): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerCondition(target.constructor, propertyKey as string);
+  };
+}
@@ -0,0 +1,14 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { EnumMappingOptions } from '../types/mapping.type';
+
+/**
+ * Declare an enum-to-enum mapping method. Source members map to the target members with the
+ * same name unless a @ValueMapping says otherwise, and @Mapper() checks that every source
+ * member is covered.
+ */
+export function EnumMapping(options: EnumMappingOptions): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerEnumMapping(target.constructor, propertyKey as string, options);
+  };
+}
@@ -0,0 +1,17 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+
+/**
+ * Reuse the mappings of another method of the same mapper.
+ * @Mapping decorators on the decorated method override inherited mappings with the same target.
+ */
+export function InheritConfiguration(method: string): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerInheritedConfiguration(
+      target.constructor,
+      propertyKey as string,
+      method,
+      false
+    );
+  };
+}
@@ -0,0 +1,18 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+
+/**
+ * Derive the mappings of the decorated method by reversing the mappings of another method,
+ * e.g. toEntity from toDto. Converters are only reversed through their inverseTransform.
+ * @Mapping decorators on the decorated method override derived mappings with the same target.
+ */
+export function InheritInverseConfiguration(method: string): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerInheritedConfiguration(
+      target.constructor,
+      propertyKey as string,
+      method,
+      true
+    );
+  };
+}
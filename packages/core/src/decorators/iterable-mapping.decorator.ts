@@ -0,0 +1,9 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { IterableMappingOptions } from '../types/mapping.type';
+
+export function IterableMapping(options: IterableMappingOptions = {}): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerIterableMapping(target.constructor, propertyKey as string, options);
+  };
+}
@@ -1,7 +1,10 @@
+import { validateValueMappings } from '../core/value-mapping';
 import { metadataStorage } from '../metadata/metadata.storage';
+import type { MapperClass, MapperOptions } from '../types/mapper.type';
 
-export function Mapper() {
-  return (target: any) => {
-    metadataStorage.registerMapper(target);
+export function Mapper(options: MapperOptions = {}) {
+  return (target: MapperClass) => {
+    metadataStorage.registerMapper(target, options);
+    validateValueMappings(target);
   };
 }
@@ -0,0 +1,19 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+
+/**
+ * Marks the parameter holding the existing instance that a mapper method maps into.
+ * Auto-implemented methods then update that instance (see transformInto) and return it.
+ */
+export function MappingTarget(): ParameterDecorator {
+  return (target, propertyKey, parameterIndex) => {
+    if (propertyKey === undefined) {
+      throw new Error('@MappingTarget() can only be used on mapper method parameters.');
+    }
+    metadataStorage.registerMappingTarget(
+      target.constructor,
+      propertyKey as string,
+      parameterIndex
+    );
+  };
+}
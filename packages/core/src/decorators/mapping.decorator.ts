@@ -1,9 +1,60 @@
 import 'reflect-metadata';
+import { parsePath, WILDCARD } from '../core/path-accessor';
 import { metadataStorage } from '../metadata/metadata.storage';
 import type { MappingOptions } from '../types/mapping.type';
 
 export function Mapping(options: MappingOptions): MethodDecorator {
   return (target, propertyKey) => {
+    validateMapping(options, `${target.constructor.name}.${String(propertyKey)}`);
     metadataStorage.registerMapping(target.constructor, propertyKey as string, options);
   };
 }
+
+/**
+ * Reject contradicting options when the decorator is applied rather than at map time
+ */
+function validateMapping(options: MappingOptions, location: string): void {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid @Mapping on ${location} (target: ${options.target}): ${reason}`);
+  };
+
+  if (!options.target) {
+    fail('target is required.');
+  }
+
+  // Malformed paths are rejected here rather than when the mapping plan is compiled
+  const parse = (path: string) => {
+    try {
+      return parsePath(path);
+    } catch (error) {
+      return fail((error as Error).message);
+    }
+  };
+  if (parse(options.target).includes(WILDCARD)) {
+    fail('wildcards are only supported in source paths.');
+  }
+  if (options.source !== undefined) {
+    parse(options.source);
+  }
+
+  const valueSources = [
+    options.source !== undefined,
+    options.constant !== undefined,
+    options.expression !== undefined,
+  ].filter(Boolean).length;
+
+  if (options.ignore) {
+    if (valueSources > 0 || options.defaultValue !== undefined) {
+      fail('ignore cannot be combined with source, constant, expression or defaultValue.');
+    }
+    return;
+  }
+
+  if (valueSources !== 1) {
+    fail('exactly one of source, constant or expression must be given.');
+  }
+
+  if (options.values && (options.transform !== undefined || options.using !== undefined)) {
+    fail('values cannot be combined with transform or using.');
+  }
+}
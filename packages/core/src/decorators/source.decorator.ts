@@ -0,0 +1,26 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+
+/**
+ * Names a source parameter of a multi-source mapper method, so that @Mapping source paths
+ * can refer to it, e.g. @Mapping({ source: 'customer.fullName', target: 'customerName' }).
+ * Parameters without a name are referred to by position: '$0', '$1', ...
+ */
+export function Source(name: string): ParameterDecorator {
+  return (target, propertyKey, parameterIndex) => {
+    if (propertyKey === undefined) {
+      throw new Error('@Source() can only be used on mapper method parameters.');
+    }
+    if (!name || name.includes('.') || name.startsWith('$')) {
+      throw new Error(
+        `Invalid @Source("${name}") on ${target.constructor.name}.${String(propertyKey)}: names must be non-empty, without dots and not start with "$".`
+      );
+    }
+    metadataStorage.registerSourceParameter(
+      target.constructor,
+      propertyKey as string,
+      parameterIndex,
+      name
+    );
+  };
+}
@@ -0,0 +1,13 @@
+import 'reflect-metadata';
+import { metadataStorage } from '../metadata/metadata.storage';
+import type { ValueMappingOptions } from '../types/mapping.type';
+
+/**
+ * Map one source value to a target value, e.g. a status code to an enum member.
+ * Repeatable; use MappingConstants for fallbacks (ANY_REMAINING, ANY_UNMAPPED, NULL, THROW).
+ */
+export function ValueMapping(options: ValueMappingOptions): MethodDecorator {
+  return (target, propertyKey) => {
+    metadataStorage.registerValueMapping(target.constructor, propertyKey as string, options);
+  };
+}
@@ -1,6 +1,27 @@
 export * from './decorators/mapper.decorator';
 export * from './decorators/mapping.decorator';
+export * from './decorators/auto-map.decorator';
+export * from './decorators/iterable-mapping.decorator';
+export * from './decorators/bean-mapping.decorator';
+export * from './decorators/mapping-target.decorator';
+export * from './decorators/source.decorator';
+export * from './decorators/inherit-configuration.decorator';
+export * from './decorators/inherit-inverse-configuration.decorator';
+export * from './decorators/value-mapping.decorator';
+export * from './decorators/enum-mapping.decorator';
+export * from './decorators/condition.decorator';
+export * from './decorators/before-mapping.decorator';
+export * from './decorators/after-mapping.decorator';
 export * from './core/transformer';
+export * from './core/mapping-plan';
+export * from './core/iterable-mapping';
 export * from './core/mapper-factory';
+export * from './core/global-config';
+export * from './core/type-conversion';
+export * from './core/value-mapping';
+export * from './core/mapping-constants';
+export * from './core/naming-strategies';
+export * from './core/errors';
 export * from './metadata/metadata.storage';
 export * from './types/mapping.type';
+export * from './types/mapper.type';
@@ -1,34 +1,430 @@
-import type { MappingOptions } from '../types/mapping.type';
+import { parsePath, WILDCARD } from '../core/path-accessor';
+import type { MapperClass, MapperOptions } from '../types/mapper.type';
+import type {
+  BeanMappingOptions,
+  EnumMappingOptions,
+  IterableMappingOptions,
+  MappingHookOptions,
+  MappingOptions,
+  ValueMap,
+  ValueMappingOptions,
+} from '../types/mapping.type';
 
 interface MapperMeta {
+  options: MapperOptions;
   methods: {
     [methodName: string]: MappingOptions[];
   };
+  iterableMethods: {
+    [methodName: string]: IterableMappingOptions;
+  };
+  beanMethods: {
+    [methodName: string]: BeanMappingOptions;
+  };
+  mappingTargets: {
+    [methodName: string]: number;
+  };
+  sourceParameters: {
+    [methodName: string]: string[];
+  };
+  valueMethods: {
+    [methodName: string]: ValueMappingOptions[];
+  };
+  enumMethods: {
+    [methodName: string]: EnumMappingOptions;
+  };
+  conditionMethods: string[];
+  lifecycleMethods: LifecycleMethod[];
+  autoMapMethods: string[];
+  inheritedConfigurations: {
+    [methodName: string]: InheritedConfiguration;
+  };
+}
+
+/**
+ * A @BeforeMapping() or @AfterMapping() method
+ */
+export interface LifecycleMethod {
+  method: string;
+  phase: 'before' | 'after';
+  options: MappingHookOptions;
+}
+
+/**
+ * Mapping configuration a method takes over from a sibling method
+ */
+interface InheritedConfiguration {
+  method: string;
+  inverse: boolean;
 }
 
 class MetadataStorage {
-  private mappers = new Map<any, MapperMeta>();
+  private mappers = new Map<object, MapperMeta>();
+  private revision = 0;
+
+  /**
+   * Revision counter, bumped whenever mapping metadata changes.
+   * Compiled mapping plans use it to detect stale entries.
+   */
+  get version(): number {
+    return this.revision;
+  }
 
-  registerMapper(mapper: any) {
-    if (!this.mappers.has(mapper)) {
-      this.mappers.set(mapper, { methods: {} });
+  registerMapper(mapper: object, options?: MapperOptions) {
+    const meta = this.getOrCreateMeta(mapper);
+    if (options) {
+      // @Mapping decorators run before @Mapper, so the mapper may already be registered
+      meta.options = { ...meta.options, ...options };
+      this.revision++;
     }
   }
 
-  registerMapping(mapper: any, method: string, option: MappingOptions) {
-    if (!this.mappers.has(mapper)) this.registerMapper(mapper);
-    const meta = this.mappers.get(mapper)!;
+  registerMapping(mapper: object, method: string, option: MappingOptions) {
+    const meta = this.getOrCreateMeta(mapper);
     if (!meta.methods[method]) meta.methods[method] = [];
     meta.methods[method].push(option);
+    this.revision++;
+  }
+
+  registerIterableMapping(mapper: object, method: string, option: IterableMappingOptions) {
+    this.getOrCreateMeta(mapper).iterableMethods[method] = option;
+    this.revision++;
+  }
+
+  registerBeanMapping(mapper: object, method: string, option: BeanMappingOptions) {
+    const meta = this.getOrCreateMeta(mapper);
+    meta.beanMethods[method] = { ...meta.beanMethods[method], ...option };
+    this.revision++;
+  }
+
+  registerMappingTarget(mapper: object, method: string, parameterIndex: number) {
+    this.getOrCreateMeta(mapper).mappingTargets[method] = parameterIndex;
+    this.revision++;
+  }
+
+  registerSourceParameter(mapper: object, method: string, parameterIndex: number, name: string) {
+    const meta = this.getOrCreateMeta(mapper);
+    if (!meta.sourceParameters[method]) meta.sourceParameters[method] = [];
+    meta.sourceParameters[method][parameterIndex] = name;
+    this.revision++;
+  }
+
+  registerValueMapping(mapper: object, method: string, option: ValueMappingOptions) {
+    const meta = this.getOrCreateMeta(mapper);
+    if (!meta.valueMethods[method]) meta.valueMethods[method] = [];
+    meta.valueMethods[method].push(option);
+    this.revision++;
+  }
+
+  registerEnumMapping(mapper: object, method: string, option: EnumMappingOptions) {
+    this.getOrCreateMeta(mapper).enumMethods[method] = option;
+    this.revision++;
+  }
+
+  registerCondition(mapper: object, method: string) {
+    this.getOrCreateMeta(mapper).conditionMethods.push(method);
+    this.revision++;
+  }
+
+  registerLifecycleMethod(mapper: object, hook: LifecycleMethod) {
+    this.getOrCreateMeta(mapper).lifecycleMethods.push(hook);
+    this.revision++;
+  }
+
+  registerAutoMap(mapper: object, method: string) {
+    this.getOrCreateMeta(mapper).autoMapMethods.push(method);
+    this.revision++;
+  }
+
+  registerInheritedConfiguration(mapper: object, method: string, from: string, inverse: boolean) {
+    this.getOrCreateMeta(mapper).inheritedConfigurations[method] = { method: from, inverse };
+    this.revision++;
+  }
+
+  /**
+   * Mappings of a method, including the ones declared on parent mapper classes and the ones
+   * inherited through @InheritConfiguration or @InheritInverseConfiguration.
+   * Mappings closer to the method override the others with the same target.
+   */
+  getMappings(mapper: object, method: string): MappingOptions[] {
+    return this.resolveMappings(mapper, method, []);
+  }
+
+  private resolveMappings(mapper: object, method: string, chain: string[]): MappingOptions[] {
+    const lineage = this.getLineage(mapper);
+    const local = mergeByTarget(lineage.map(meta => meta.methods[method] || []));
+    const inherited = lineage.find(entry => entry.inheritedConfigurations[method])
+      ?.inheritedConfigurations[method];
+    if (!inherited) {
+      return local;
+    }
+
+    const { name: mapperName, prototype } = mapper as MapperClass;
+    const location = `${mapperName}.${method}`;
+    if (chain.includes(method)) {
+      throw new Error(
+        `Circular mapping configuration inheritance: ${[...chain, method].map(name => `${mapperName}.${name}`).join(' -> ')}`
+      );
+    }
+    if (typeof prototype?.[inherited.method] !== 'function') {
+      throw new Error(
+        `${location} inherits the configuration of ${mapperName}.${inherited.method}, which does not exist.`
+      );
+    }
+
+    const parentMappings = this.resolveMappings(mapper, inherited.method, [...chain, method]);
+    const candidates = inherited.inverse
+      ? parentMappings
+          .map(mapping => invertMapping(mapping, `${mapperName}.${inherited.method}`, location))
+          .filter((mapping): mapping is MappingOptions => mapping !== undefined)
+      : parentMappings;
+
+    return mergeByTarget([local, candidates]);
+  }
+
+  getIterableMapping(mapper: object, method: string): IterableMappingOptions | undefined {
+    const meta = this.getLineage(mapper).find(entry => entry.iterableMethods[method]);
+    return meta?.iterableMethods[method];
+  }
+
+  getBeanMapping(mapper: object, method: string): BeanMappingOptions {
+    return this.getLineage(mapper).reduceRight<BeanMappingOptions>(
+      (options, meta) => ({ ...options, ...meta.beanMethods[method] }),
+      {}
+    );
   }
 
-  getMappings(mapper: any, method: string): MappingOptions[] {
-    return this.mappers.get(mapper)?.methods[method] || [];
+  /**
+   * Index of the @MappingTarget() parameter of a mapper method, if any
+   */
+  getMappingTargetIndex(mapper: object, method: string): number | undefined {
+    const meta = this.getLineage(mapper).find(entry => entry.mappingTargets[method] !== undefined);
+    return meta?.mappingTargets[method];
   }
 
-  getAllMappers(): any[] {
-    return Array.from(this.mappers.keys());
+  getValueMappings(mapper: object, method: string): ValueMappingOptions[] {
+    const meta = this.getLineage(mapper).find(entry => entry.valueMethods[method]);
+    return meta?.valueMethods[method] || [];
+  }
+
+  getEnumMapping(mapper: object, method: string): EnumMappingOptions | undefined {
+    const meta = this.getLineage(mapper).find(entry => entry.enumMethods[method]);
+    return meta?.enumMethods[method];
+  }
+
+  /**
+   * Methods with value mappings (@ValueMapping or @EnumMapping) declared on the mapper class itself
+   */
+  getValueMappingMethods(mapper: object): string[] {
+    const meta = this.mappers.get(mapper);
+    return meta
+      ? Array.from(new Set([...Object.keys(meta.valueMethods), ...Object.keys(meta.enumMethods)]))
+      : [];
+  }
+
+  /**
+   * @Condition() methods of a mapper class and its parent classes
+   */
+  getConditionMethods(mapper: object): string[] {
+    return Array.from(new Set(this.getLineage(mapper).flatMap(meta => meta.conditionMethods)));
+  }
+
+  /**
+   * @BeforeMapping() or @AfterMapping() methods of a mapper class and its parent classes,
+   * parent hooks first. A hook redeclared by a subclass runs once, with the subclass options.
+   */
+  getLifecycleMethods(mapper: object, phase: LifecycleMethod['phase']): LifecycleMethod[] {
+    const hooks = new Map<string, LifecycleMethod>();
+    for (const meta of this.getLineage(mapper).reverse()) {
+      for (const hook of meta.lifecycleMethods) {
+        if (hook.phase === phase) hooks.set(hook.method, hook);
+      }
+    }
+    return Array.from(hooks.values());
+  }
+
+  /**
+   * Names given with @Source() to the parameters of a mapper method, indexed by parameter position
+   */
+  getSourceParameterNames(mapper: object, method: string): string[] {
+    const meta = this.getLineage(mapper).find(entry => entry.sourceParameters[method]);
+    return meta?.sourceParameters[method] || [];
+  }
+
+  /**
+   * @Mapper() options merged down the mapper class hierarchy: used mappers are concatenated,
+   * converters are merged and the other options of subclasses win
+   */
+  getMapperOptions(mapper: object): MapperOptions {
+    return this.getLineage(mapper).reduceRight<MapperOptions>((merged, { options }) => {
+      const result: MapperOptions = { ...merged, ...options };
+      if (merged.uses && options.uses) {
+        result.uses = Array.from(new Set([...merged.uses, ...options.uses]));
+      }
+      if (merged.converters && options.converters) {
+        result.converters = { ...merged.converters, ...options.converters };
+      }
+      return result;
+    }, {});
+  }
+
+  /**
+   * Whether a method is marked with @AutoMap() on the mapper class itself
+   */
+  isAutoMapMethod(mapper: object, method: string): boolean {
+    return this.mappers.get(mapper)?.autoMapMethods.includes(method) ?? false;
+  }
+
+  /**
+   * Whether a method has mapping metadata declared on the mapper class itself: @Mapping,
+   * @BeanMapping, @IterableMapping, @ValueMapping, @EnumMapping, @MappingTarget(), @Source()
+   * or inherited configuration
+   */
+  hasMappingMetadata(mapper: object, method: string): boolean {
+    const meta = this.mappers.get(mapper);
+    return (
+      meta !== undefined &&
+      [
+        meta.methods,
+        meta.iterableMethods,
+        meta.beanMethods,
+        meta.mappingTargets,
+        meta.sourceParameters,
+        meta.valueMethods,
+        meta.enumMethods,
+        meta.inheritedConfigurations,
+      ].some(methods => Object.prototype.hasOwnProperty.call(methods, method))
+    );
+  }
+
+  getAllMappers(): MapperClass[] {
+    return Array.from(this.mappers.keys()) as MapperClass[];
+  }
+
+  /**
+   * Metadata of a mapper class, registering the class on first use
+   */
+  private getOrCreateMeta(mapper: object): MapperMeta {
+    let meta = this.mappers.get(mapper);
+    if (!meta) {
+      meta = {
+        options: {},
+        methods: {},
+        iterableMethods: {},
+        beanMethods: {},
+        mappingTargets: {},
+        sourceParameters: {},
+        valueMethods: {},
+        enumMethods: {},
+        conditionMethods: [],
+        lifecycleMethods: [],
+        autoMapMethods: [],
+        inheritedConfigurations: {},
+      };
+      this.mappers.set(mapper, meta);
+      this.revision++;
+    }
+    return meta;
+  }
+
+  /**
+   * Metadata of a mapper class and its registered parent classes, the class itself first
+   */
+  private getLineage(mapper: object): MapperMeta[] {
+    const lineage: MapperMeta[] = [];
+    for (
+      let type: unknown = mapper;
+      typeof type === 'function' && type !== Function.prototype;
+      type = Object.getPrototypeOf(type)
+    ) {
+      const meta = this.mappers.get(type);
+      if (meta) lineage.push(meta);
+    }
+    return lineage;
   }
 }
 
 export const metadataStorage = new MetadataStorage();
+
+/**
+ * Concatenate mapping lists, dropping mappings whose target is already mapped by an earlier list
+ */
+function mergeByTarget(lists: MappingOptions[][]): MappingOptions[] {
+  const merged: MappingOptions[] = [];
+  const targets = new Set<string>();
+
+  for (const list of lists) {
+    merged.push(...list.filter(mapping => !targets.has(mapping.target)));
+    list.forEach(mapping => targets.add(mapping.target));
+  }
+  return merged;
+}
+
+/**
+ * Reverse a mapping for @InheritInverseConfiguration.
+ * Ignored, constant and expression mappings have no inverse and are skipped.
+ */
+function invertMapping(
+  mapping: MappingOptions,
+  origin: string,
+  location: string
+): MappingOptions | undefined {
+  if (mapping.ignore || mapping.source === undefined) {
+    return undefined;
+  }
+
+  if (mapping.transform !== undefined && mapping.inverseTransform === undefined) {
+    throw new Error(
+      `Cannot invert the mapping of ${origin} (target: ${mapping.target}) for ${location}: converters cannot be reversed automatically. Add an inverseTransform to the @Mapping or override the mapping on ${location}.`
+    );
+  }
+
+  if (parsePath(mapping.source).includes(WILDCARD)) {
+    throw new Error(
+      `Cannot invert the mapping of ${origin} (target: ${mapping.target}) for ${location}: wildcard source paths cannot be written. Override the mapping on ${location}.`
+    );
+  }
+
+  const values = mapping.values && invertValueMap(mapping.values);
+  if (mapping.values && !values) {
+    throw new Error(
+      `Cannot invert the mapping of ${origin} (target: ${mapping.target}) for ${location}: value maps can only be reversed when they are one-to-one. Override the mapping on ${location}.`
+    );
+  }
+
+  // `using` delegates are not carried over; nested values fall back to the mappers in uses
+  const inverse: MappingOptions = { source: mapping.target, target: mapping.source };
+  if (values) inverse.values = values;
+  // Formats work both ways: 'dd.MM.yyyy' formats Dates and parses strings alike
+  for (const format of ['dateFormat', 'numberFormat', 'booleanFormat'] as const) {
+    if (mapping[format] !== undefined) inverse[format] = mapping[format];
+  }
+  if (mapping.inverseTransform !== undefined) {
+    inverse.transform = mapping.inverseTransform;
+    inverse.inverseTransform = mapping.transform;
+  }
+  return inverse;
+}
+
+/**
+ * Reverse a one-to-one value map ({ A: 'active' } -> { active: 'A' }). Undefined when two keys
+ * map to the same value, or when MappingConstants keys or values make it one-way.
+ * Object keys are strings, so numeric keys ({ 1: 'active' }) are turned back into numbers.
+ */
+function invertValueMap(values: ValueMap): ValueMap | undefined {
+  if (Object.getOwnPropertySymbols(values).length > 0) {
+    return undefined;
+  }
+
+  const inverse: ValueMap = {};
+  for (const [source, target] of Object.entries(values)) {
+    if (
+      (typeof target !== 'string' && typeof target !== 'number') ||
+      Object.prototype.hasOwnProperty.call(inverse, target)
+    ) {
+      return undefined;
+    }
+    inverse[target] = String(Number(source)) === source ? Number(source) : source;
+  }
+  return inverse;
+}
@@ -0,0 +1,91 @@
+import type { MappingTransformFn } from './mapping.type';
+
+/**
+ * How unmapped properties are reported
+ */
+export type ReportingPolicy = 'ignore' | 'warn' | 'error';
+
+/**
+ * How null and undefined source values are written when mapping into an existing target:
+ * - 'set-null': written through as-is (default)
+ * - 'ignore': the target property keeps its current value
+ * - 'set-default': the target property is reset to the initial value of a new target instance
+ */
+export type NullValuePropertyStrategy = 'set-null' | 'ignore' | 'set-default';
+
+/**
+ * How source objects and arrays are written to the target:
+ * - 'reference': the same instance is written (default)
+ * - 'shallow': a copy of the instance, whose properties or elements are shared
+ * - 'deep': a copy of the instance and of everything it references, keeping prototypes
+ */
+export type CopyStrategy = 'reference' | 'shallow' | 'deep';
+
+/**
+ * Normalizes a property name for auto-matching: source and target properties whose
+ * normalized names are equal are matched, e.g. 'full_name' and 'fullName' under
+ * NamingStrategies.snakeCase. An array applies several strategies in order.
+ */
+export type NamingStrategy = ((name: string) => string) | Array<(name: string) => string>;
+
+/**
+ * Mapper class constructor, abstract mapper classes included
+ */
+export type MapperClass<T = object> = abstract new (...args: never[]) => T;
+
+export interface MapperOptions {
+  /**
+   * Mappers whose methods convert nested properties
+   */
+  uses?: MapperClass[];
+
+  /**
+   * Named converters that @Mapping({ transform: 'name' }) can reference
+   */
+  converters?: Record<string, MappingTransformFn>;
+  /**
+   * Reporting of target properties that receive no value (default: 'ignore')
+   */
+  unmappedTargetPolicy?: ReportingPolicy;
+  /**
+   * Reporting of source properties that are never read (default: 'ignore')
+   */
+  unmappedSourcePolicy?: ReportingPolicy;
+  /**
+   * Handling of null and undefined source values in transformInto() (default: 'set-null')
+   */
+  nullValuePropertyStrategy?: NullValuePropertyStrategy;
+  /**
+   * Nesting depth up to which nested objects are mapped (default: unlimited)
+   */
+  maxDepth?: number;
+  /**
+   * Whether an object referring back to an object being mapped gets the target instance
+   * created for it (default: true). When false, such cycles throw a MappingError.
+   */
+  allowCycles?: boolean;
+  /**
+   * Naming strategy of auto-matched properties (default: identical names only)
+   */
+  namingStrategy?: NamingStrategy;
+  /**
+   * Fill auto-matched properties by flattening and unflattening conventions (default: false):
+   * target 'profileBio' from source 'profile.bio', and target 'profile.bio' from source 'profileBio'
+   */
+  flattening?: boolean;
+  /**
+   * Copying of source objects and arrays written to the target (default: 'reference')
+   */
+  copyStrategy?: CopyStrategy;
+  /**
+   * Auto-implement every method of the mapper class with mapping metadata, e.g. a @Mapping,
+   * as if it were marked with @AutoMap(): the method body is never called
+   */
+  autoImplement?: boolean;
+  /**
+   * Also auto-implement methods whose source text looks empty, such as `return {} as UserDto;`,
+   * the detection of earlier versions (default: false). Kept for compatibility: it depends on
+   * Function.prototype.toString() and breaks with minified, bundled or instrumented code.
+   */
+  detectEmptyMethods?: boolean;
+}
@@ -1,4 +1,207 @@
-export interface MappingOptions {
-  source: string;
+import type {
+  CopyStrategy,
+  NamingStrategy,
+  NullValuePropertyStrategy,
+  ReportingPolicy,
+} from './mapper.type';
+
+/**
+ * Per-field value converter, receives the resolved source value and the whole source object.
+ * The parameters default to any so that converters can declare the types they accept.
+ */
+export type MappingTransformFn<TValue = any, TSource = any> = (
+  value: TValue,
+  source: TSource
+) => unknown;
+
+/**
+ * Decides whether a mapping is applied, given the source object and the source value
+ */
+export type MappingConditionFn<TSource = any, TValue = any> = (
+  source: TSource,
+  value: TValue
+) => boolean;
+
+/**
+ * Computes a target value from the whole source object
+ */
+export type MappingExpressionFn<TSource = any> = (source: TSource) => unknown;
+
+/**
+ * Formats of the built-in type conversions
+ */
+export interface ConversionOptions {
+  /**
+   * Date pattern of Date <-> string conversions, e.g. 'yyyy-MM-dd' (UTC).
+   * Tokens: yyyy, MM, dd, HH, mm, ss, SSS. Defaults to ISO 8601.
+   */
+  dateFormat?: string;
+  /**
+   * Number pattern of number <-> string conversions, e.g. '0.00' or '#,##0.##'
+   */
+  numberFormat?: string;
+  /**
+   * Texts of true and false in boolean <-> string conversions, e.g. 'Y/N' (default: 'true/false')
+   */
+  booleanFormat?: string;
+}
+
+export interface MappingOptions extends ConversionOptions {
+  /**
+   * Source path, e.g. 'profile.bio', 'items[0].sku', 'addresses[*].city' or "meta['content.type']";
+   * may be omitted for ignore, constant and expression mappings
+   */
+  source?: string;
+  /**
+   * Target path; the same syntax as source without wildcards
+   */
   target: string;
+  /**
+   * Exclude the target from mapping, including name-based auto-matching
+   */
+  ignore?: boolean;
+  /**
+   * Fixed value written to the target
+   */
+  constant?: unknown;
+  /**
+   * Computed target value, for targets that have no single source path
+   */
+  expression?: MappingExpressionFn;
+  /**
+   * Value written when the source resolves to null or undefined
+   */
+  defaultValue?: unknown;
+  /**
+   * Converter applied to the source value before it is written to the target.
+   * Either a function or the name of a converter registered with @Mapper({ converters }).
+   * Not called when the source value is null or undefined.
+   */
+  transform?: MappingTransformFn | string;
+  /**
+   * Converter of the reversed mapping derived by @InheritInverseConfiguration.
+   * Required there whenever transform is set, as converters cannot be reversed automatically.
+   */
+  inverseTransform?: MappingTransformFn | string;
+  /**
+   * Mapper method converting the source value, as 'ProfileMapper.toDto' for a mapper listed
+   * in @Mapper({ uses }) or 'toDto' for a method of the same mapper
+   */
+  using?: string;
+  /**
+   * Value-to-value map applied to the source value, e.g. { A: UserStatus.Active }.
+   * Accepts MappingConstants.ANY_REMAINING / ANY_UNMAPPED keys and MappingConstants.NULL /
+   * THROW values; unmatched values throw a MappingError.
+   */
+  values?: ValueMap;
+  /**
+   * The target is only written when the condition holds, otherwise it keeps its value
+   */
+  condition?: MappingConditionFn;
+  /**
+   * Copying of the written value when no converter or mapper method produces it,
+   * overriding the strategy of the method and mapper
+   */
+  copyStrategy?: CopyStrategy;
+}
+
+/**
+ * Details of the running mapping, passed to @BeforeMapping() and @AfterMapping() methods
+ */
+export interface MappingContext {
+  /**
+   * Mapper instance the mapping runs on
+   */
+  mapper: object;
+  /**
+   * Name of the mapping method
+   */
+  method: string;
+  /**
+   * Class of the target object
+   */
+  targetType: new () => unknown;
+}
+
+export interface MappingHookOptions {
+  /**
+   * Only run for source objects that are instances of this class
+   */
+  sourceType?: abstract new (...args: never[]) => unknown;
+  /**
+   * Only run for target objects that are instances of this class
+   */
+  targetType?: abstract new (...args: never[]) => unknown;
+}
+
+/**
+ * Source values (as keys) and the target values they map to
+ */
+export type ValueMap = Record<string | number | symbol, unknown>;
+
+export interface ValueMappingOptions {
+  /**
+   * Source value, or MappingConstants.ANY_REMAINING, ANY_UNMAPPED or NULL
+   */
+  source: unknown;
+  /**
+   * Target value, or MappingConstants.NULL or THROW
+   */
+  target: unknown;
+}
+
+export interface EnumMappingOptions {
+  /**
+   * Enum of the source values; every member must be covered by a value mapping,
+   * a target member with the same name or ANY_REMAINING / ANY_UNMAPPED
+   */
+  sourceEnum: object;
+  /**
+   * Enum of the target values; source members are mapped to target members with the same name
+   */
+  targetEnum?: object;
+}
+
+export interface IterableMappingOptions {
+  /**
+   * Element type produced for each element of the collection
+   */
+  elementType?: new () => unknown;
+  /**
+   * Method of the same mapper that maps a single element
+   */
+  using?: string;
+  /**
+   * Result for a null or undefined collection: 'null' returns it unchanged (default),
+   * 'empty' returns an empty collection
+   */
+  nullValue?: 'null' | 'empty';
+  /**
+   * Maximum number of elements mapped at a time by async collection mappings
+   * (transformIterableAsync), overriding the global concurrency
+   */
+  concurrency?: number;
+}
+
+/**
+ * Method level options, taking priority over @Mapper() options
+ */
+export interface BeanMappingOptions {
+  unmappedTargetPolicy?: ReportingPolicy;
+  unmappedSourcePolicy?: ReportingPolicy;
+  /**
+   * Source properties excluded from unmapped source reporting, e.g. ones read by expressions
+   */
+  ignoreUnmappedSourceProperties?: string[];
+  nullValuePropertyStrategy?: NullValuePropertyStrategy;
+  /**
+   * Target class of an auto-implemented async method: for a Promise<UserDto> return type,
+   * TypeScript only emits Promise as design:returntype
+   */
+  resultType?: new () => unknown;
+  maxDepth?: number;
+  allowCycles?: boolean;
+  namingStrategy?: NamingStrategy;
+  flattening?: boolean;
+  copyStrategy?: CopyStrategy;
 }
@@ -0,0 +1,228 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Scope } from '@nestjs/common';
+import { ContextIdFactory } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { REQUEST_CONTEXT_ID } from '@nestjs/core/router/request/request-constants';
+import { Observable, lastValueFrom, of, toArray } from 'rxjs';
+import { AutoMap, BeanMapping, Mapping } from '@ilhamtahir/ts-mapper';
+import { MapperModule } from '../mapper.module';
+import { Mapper } from '../decorators/mapper.decorator';
+import { MapResponse } from '../decorators/map-response.decorator';
+import { MapResponseInterceptor } from '../interceptors/map-response.interceptor';
+
+class UserEntity {
+  id = 0;
+  fullName = '';
+}
+
+class UserDto {
+  id = 0;
+  name = '';
+}
+
+@Mapper()
+class UserMapper {
+  @Mapping({ source: 'fullName', target: 'name' })
+  @AutoMap()
+  toDto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+
+  @Mapping({ source: 'fullName', target: 'name' })
+  @BeanMapping({ resultType: UserDto })
+  @AutoMap()
+  toDtoAsync(_entity: UserEntity): Promise<UserDto> {
+    return {} as Promise<UserDto>;
+  }
+}
+
+let created = 0;
+
+@Mapper({ scope: Scope.REQUEST })
+class RequestUserMapper {
+  readonly instance = ++created;
+
+  toDto(entity: UserEntity): UserDto {
+    return Object.assign(new UserDto(), { id: entity.id, name: `request-${this.instance}` });
+  }
+}
+
+@Mapper()
+class UnregisteredUserMapper {
+  @Mapping({ source: 'fullName', target: 'name' })
+  @AutoMap()
+  toDto(_entity: UserEntity): UserDto {
+    return {} as UserDto;
+  }
+}
+
+class UrlSigner {
+  sign(id: number): string {
+    return `/users/${id}?signature=abc`;
+  }
+}
+
+@Mapper()
+class SigningUserMapper {
+  constructor(private readonly urlSigner: UrlSigner) {}
+
+  toDto(entity: UserEntity): UserDto {
+    return Object.assign(new UserDto(), { id: entity.id, name: this.urlSigner.sign(entity.id) });
+  }
+}
+
+class UserController {
+  @MapResponse(UserMapper, 'toDto')
+  findOne() {}
+
+  @MapResponse(UserMapper, 'toDtoAsync')
+  findOneAsync() {}
+
+  @MapResponse(UserMapper, 'toDto', { field: 'page.items' })
+  findPage() {}
+
+  @MapResponse(RequestUserMapper, 'toDto')
+  findForRequest() {}
+
+  @MapResponse(UnregisteredUserMapper, 'toDto')
+  findWithUnregistered() {}
+
+  @MapResponse(SigningUserMapper, 'toDto')
+  findSigned() {}
+
+  unmapped() {}
+}
+
+@MapResponse(UserMapper, 'toDto')
+class UserResolver {
+  user() {}
+}
+
+describe('MapResponse', () => {
+  let module: TestingModule;
+  let interceptor: MapResponseInterceptor;
+
+  const createUser = (id: number) =>
+    Object.assign(new UserEntity(), { id, fullName: `User ${id}` });
+
+  const intercept = <T = UserDto>(
+    handler: () => void,
+    result: any,
+    { type = 'http', request = {} }: { type?: string; request?: object } = {}
+  ): Promise<T[]> => {
+    const context = new ExecutionContextHost([request, {}, {}], UserController, handler);
+    context.setType(type);
+    const mapped = interceptor.intercept(context, {
+      handle: () => (result && typeof result.subscribe === 'function' ? result : of(result)),
+    });
+    return lastValueFrom((mapped as Observable<T>).pipe(toArray()));
+  };
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([UserMapper, RequestUserMapper])],
+      providers: [MapResponseInterceptor],
+    }).compile();
+    interceptor = module.get(MapResponseInterceptor);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('should map a single result', async () => {
+    const [dto] = await intercept(UserController.prototype.findOne, createUser(1));
+
+    expect(dto).toBeInstanceOf(UserDto);
+    expect(dto).toEqual({ id: 1, name: 'User 1' });
+  });
+
+  it('should map array results element by element', async () => {
+    const [dtos] = await intercept<UserDto[]>(UserController.prototype.findOne, [
+      createUser(1),
+      createUser(2),
+    ]);
+
+    expect(dtos.map(dto => dto.name)).toEqual(['User 1', 'User 2']);
+  });
+
+  it('should map every value of an Observable and await async mapper methods', async () => {
+    const dtos = await intercept(
+      UserController.prototype.findOneAsync,
+      of(createUser(1), createUser(2))
+    );
+
+    expect(dtos).toHaveLength(2);
+    expect(dtos[1]).toBeInstanceOf(UserDto);
+    expect(dtos[1].name).toBe('User 2');
+  });
+
+  it('should map the inner field of an envelope and keep the rest', async () => {
+    const envelope = { page: { items: [createUser(1)], total: 1 }, links: {} };
+    const [result] = await intercept(UserController.prototype.findPage, envelope);
+
+    expect(result).toEqual({ page: { items: [{ id: 1, name: 'User 1' }], total: 1 }, links: {} });
+    expect(envelope.page.items[0]).toBeInstanceOf(UserEntity);
+  });
+
+  it('should pass null results and handlers without @MapResponse() through', async () => {
+    const user = createUser(1);
+
+    expect(await intercept(UserController.prototype.findOne, null)).toEqual([null]);
+    expect((await intercept(UserController.prototype.unmapped, user))[0]).toBe(user);
+  });
+
+  it('should apply @MapResponse() on the class to every handler', async () => {
+    const context = new ExecutionContextHost(
+      [{}, {}, {}],
+      UserResolver,
+      UserResolver.prototype.user
+    );
+    context.setType('graphql');
+    const [dto] = await lastValueFrom(
+      interceptor.intercept(context, { handle: () => of(createUser(3)) }).pipe(toArray())
+    );
+
+    expect(dto).toEqual({ id: 3, name: 'User 3' });
+  });
+
+  it('should fall back to a shared instance of unregistered mappers without dependencies', async () => {
+    const [dto] = await intercept(UserController.prototype.findWithUnregistered, createUser(1));
+
+    expect(dto).toEqual({ id: 1, name: 'User 1' });
+  });
+
+  it('should reject unregistered mappers with constructor dependencies', async () => {
+    await expect(intercept(UserController.prototype.findSigned, createUser(1))).rejects.toThrow(
+      'SigningUserMapper is not registered in the Nest container. Register it with MapperModule.forRoot() or MapperModule.forFeature().'
+    );
+  });
+
+  it('should resolve request-scoped mappers in the DI sub-tree of the request', async () => {
+    // Attached by the Nest router when the route has request-scoped providers
+    const contextId = ContextIdFactory.create();
+    const request = { [REQUEST_CONTEXT_ID]: contextId };
+    const requestMapper = await module.resolve(RequestUserMapper, contextId);
+
+    const [first] = await intercept(UserController.prototype.findForRequest, createUser(1), {
+      request,
+    });
+    const [sameRequest] = await intercept(UserController.prototype.findForRequest, createUser(1), {
+      request,
+    });
+
+    expect(first.name).toBe(`request-${requestMapper.instance}`);
+    expect(sameRequest.name).toBe(first.name);
+  });
+
+  it('should resolve request-scoped mappers of requests without a DI sub-tree apart', async () => {
+    const [http] = await intercept(UserController.prototype.findForRequest, createUser(1));
+    const [rpc] = await intercept(UserController.prototype.findForRequest, createUser(1), {
+      type: 'rpc',
+    });
+
+    expect(http.name).toMatch(/^request-\d+$/);
+    expect(rpc.name).toMatch(/^request-\d+$/);
+    expect(rpc.name).not.toBe(http.name);
+  });
+});
@@ -0,0 +1,174 @@
+import { Test } from '@nestjs/testing';
+import { Injectable, Module, Scope } from '@nestjs/common';
+import { ContextIdFactory } from '@nestjs/core';
+import { AfterMapping, AutoMap, Mapping } from '@ilhamtahir/ts-mapper';
+import { MapperModule } from '../mapper.module';
+import { Mapper } from '../decorators/mapper.decorator';
+
+class FileEntity {
+  key = '';
+}
+
+class FileDto {
+  url = '';
+}
+
+@Injectable()
+class UrlSigner {
+  sign(key: string): string {
+    return `https://cdn.example.com/${key}?signature=abc`;
+  }
+}
+
+@Module({ providers: [UrlSigner], exports: [UrlSigner] })
+class StorageModule {}
+
+@Mapper()
+class FileMapper {
+  constructor(readonly signer: UrlSigner) {}
+
+  @Mapping({ source: 'key', target: 'url' })
+  @AutoMap()
+  toDto(_file: FileEntity): FileDto {
+    return {} as FileDto;
+  }
+
+  toSignedDto(file: FileEntity): FileDto {
+    const dto = this.toDto(file);
+    dto.url = this.signer.sign(dto.url);
+    return dto;
+  }
+}
+
+let created = 0;
+
+@Mapper({ scope: Scope.REQUEST })
+class RequestFileMapper {
+  readonly instance = ++created;
+
+  @Mapping({ source: 'key', target: 'url' })
+  @AutoMap()
+  toDto(_file: FileEntity): FileDto {
+    return {} as FileDto;
+  }
+}
+
+@Mapper({ scope: Scope.TRANSIENT })
+class TransientFileMapper {
+  readonly instance = ++created;
+
+  @Mapping({ source: 'key', target: 'url' })
+  @AutoMap()
+  toDto(_file: FileEntity): FileDto {
+    return {} as FileDto;
+  }
+}
+
+@Mapper({ scope: Scope.REQUEST })
+class RequestLinkMapper {
+  readonly instance = ++created;
+
+  @Mapping({ source: 'key', target: 'url' })
+  @AutoMap()
+  toDto(_file: FileEntity): FileDto {
+    return {} as FileDto;
+  }
+
+  @AfterMapping()
+  stamp(_file: FileEntity, dto: FileDto): void {
+    dto.url += `#${this.instance}`;
+  }
+}
+
+class FolderEntity {
+  file = new FileEntity();
+}
+
+class FolderDto {
+  file = new FileDto();
+}
+
+@Mapper({ uses: [RequestLinkMapper] })
+class FolderMapper {
+  @AutoMap()
+  toDto(_folder: FolderEntity): FolderDto {
+    return {} as FolderDto;
+  }
+}
+
+@Injectable()
+class UploadService {
+  constructor(readonly mapper: TransientFileMapper) {}
+}
+
+@Injectable()
+class DownloadService {
+  constructor(readonly mapper: TransientFileMapper) {}
+}
+
+describe('MapperModule injection', () => {
+  const file = Object.assign(new FileEntity(), { key: 'report.pdf' });
+
+  it('should resolve the constructor dependencies of mappers', async () => {
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([FileMapper], [StorageModule])],
+    }).compile();
+
+    const mapper = module.get(FileMapper);
+
+    expect(mapper).toBeInstanceOf(FileMapper);
+    expect(mapper.signer).toBeInstanceOf(UrlSigner);
+    expect(mapper.toSignedDto(file).url).toBe('https://cdn.example.com/report.pdf?signature=abc');
+
+    await module.close();
+  });
+
+  it('should create request-scoped mappers per request', async () => {
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([RequestFileMapper])],
+    }).compile();
+
+    const contextId = ContextIdFactory.create();
+    const mapper = await module.resolve(RequestFileMapper, contextId);
+    const sameRequest = await module.resolve(RequestFileMapper, contextId);
+    const otherRequest = await module.resolve(RequestFileMapper, ContextIdFactory.create());
+
+    expect(mapper).toBe(sameRequest);
+    expect(mapper.instance).not.toBe(otherRequest.instance);
+    expect(mapper.toDto(file).url).toBe('report.pdf');
+
+    await module.close();
+  });
+
+  it('should create a transient mapper for every consumer', async () => {
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([TransientFileMapper])],
+      providers: [UploadService, DownloadService],
+    }).compile();
+
+    const uploadMapper = module.get(UploadService).mapper;
+    const downloadMapper = module.get(DownloadService).mapper;
+
+    expect(uploadMapper.instance).not.toBe(downloadMapper.instance);
+    expect(uploadMapper.toDto(file).url).toBe('report.pdf');
+
+    await module.close();
+  });
+
+  it('should resolve request-scoped used mappers within the same request', async () => {
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([FolderMapper, RequestLinkMapper])],
+    }).compile();
+
+    const contextId = ContextIdFactory.create();
+    const folderMapper = await module.resolve(FolderMapper, contextId);
+    const linkMapper = await module.resolve(RequestLinkMapper, contextId);
+    const otherRequest = await module.resolve(FolderMapper, ContextIdFactory.create());
+    const folder = Object.assign(new FolderEntity(), { file });
+
+    expect(folderMapper.toDto(folder).file.url).toBe(`report.pdf#${linkMapper.instance}`);
+    expect(otherRequest.toDto(folder).file.url).not.toBe(`report.pdf#${linkMapper.instance}`);
+
+    await module.close();
+  });
+});
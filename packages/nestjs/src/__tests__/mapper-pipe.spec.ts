@@ -0,0 +1,206 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ArgumentMetadata, BadRequestException, PipeTransform, Scope } from '@nestjs/common';
+import { ContextIdFactory } from '@nestjs/core';
+import { AutoMap, BeanMapping, Mapping } from '@ilhamtahir/ts-mapper';
+import { MapperModule } from '../mapper.module';
+import { Mapper } from '../decorators/mapper.decorator';
+import { MapperPipe } from '../pipes/mapper.pipe';
+
+class CreateUserDto {
+  name = '';
+  role = '';
+}
+
+class UserEntity {
+  name = '';
+  role = '';
+}
+
+@Mapper()
+class UserMapper {
+  @Mapping({ source: 'role', target: 'role', values: { admin: 'ADMIN', member: 'MEMBER' } })
+  @BeanMapping({ unmappedSourcePolicy: 'error' })
+  @AutoMap()
+  toEntity(_dto: CreateUserDto): UserEntity {
+    return {} as UserEntity;
+  }
+}
+
+class PageQuery {
+  page = '';
+  size = '';
+}
+
+class PageRequest {
+  page = 1;
+  size = 20;
+}
+
+@Mapper()
+class PageMapper {
+  @Mapping({
+    source: 'size',
+    target: 'size',
+    transform: (size: string) => {
+      if (!/^[1-9]\d*$/.test(size)) throw new RangeError('size must be a positive integer');
+      return Number(size);
+    },
+  })
+  @AutoMap()
+  toPageRequest(_query: PageQuery): PageRequest {
+    return {} as PageRequest;
+  }
+}
+
+class UrlSigner {
+  sign(name: string): string {
+    return `${name}?signature=abc`;
+  }
+}
+
+@Mapper()
+class SigningUserMapper {
+  constructor(private readonly urlSigner: UrlSigner) {}
+
+  toEntity(dto: CreateUserDto): UserEntity {
+    return Object.assign(new UserEntity(), { name: this.urlSigner.sign(dto.name) });
+  }
+}
+
+let created = 0;
+
+@Mapper({ scope: Scope.REQUEST })
+class RequestUserMapper {
+  readonly instance = ++created;
+
+  toEntity(dto: CreateUserDto): UserEntity {
+    return Object.assign(new UserEntity(), { name: `${dto.name}-${this.instance}` });
+  }
+}
+
+describe('MapperPipe', () => {
+  const metadata: ArgumentMetadata = { type: 'body', metatype: UserEntity };
+  let module: TestingModule;
+
+  const createPipe = async (pipe: ReturnType<typeof MapperPipe>) => {
+    module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([UserMapper, PageMapper, RequestUserMapper])],
+      providers: [pipe],
+    }).compile();
+    return module.get<PipeTransform>(pipe);
+  };
+
+  afterEach(async () => {
+    await module?.close();
+  });
+
+  it('should map the payload into the domain object', async () => {
+    const pipe = await createPipe(MapperPipe(UserMapper, 'toEntity'));
+    const entity = await pipe.transform({ name: 'Jane', role: 'admin' }, metadata);
+
+    expect(entity).toBeInstanceOf(UserEntity);
+    expect(entity).toEqual({ name: 'Jane', role: 'ADMIN' });
+  });
+
+  it('should map arrays element by element', async () => {
+    const pipe = await createPipe(MapperPipe(UserMapper, 'toEntity'));
+    const entities = await pipe.transform([{ name: 'Jane', role: 'member' }], metadata);
+
+    expect(entities).toHaveLength(1);
+    expect(entities[0]).toBeInstanceOf(UserEntity);
+  });
+
+  it('should run the given pipes first with the source type of the mapper method', async () => {
+    const validate = jest.fn((value: any, { metatype }: ArgumentMetadata) => {
+      expect(metatype).toBe(CreateUserDto);
+      return { ...value, name: value.name.trim() };
+    });
+    const pipe = await createPipe(MapperPipe(UserMapper, 'toEntity', { transform: validate }));
+
+    const entity = await pipe.transform({ name: ' Jane ', role: 'admin' }, metadata);
+
+    expect(validate).toHaveBeenCalledTimes(1);
+    expect(entity.name).toBe('Jane');
+  });
+
+  it('should turn mapping errors into a BadRequestException naming the fields', async () => {
+    const pipe = await createPipe(MapperPipe(UserMapper, 'toEntity'));
+
+    const unknownProperty = pipe.transform(
+      { name: 'Jane', role: 'admin', isAdmin: true },
+      metadata
+    );
+    await expect(unknownProperty).rejects.toBeInstanceOf(BadRequestException);
+    await expect(unknownProperty).rejects.toMatchObject({
+      response: {
+        statusCode: 400,
+        message: 'Unmapped source properties in UserMapper.toEntity: isAdmin',
+        fields: ['isAdmin'],
+      },
+    });
+
+    await expect(pipe.transform({ name: 'Jane', role: 'owner' }, metadata)).rejects.toMatchObject({
+      response: { fields: ['role'] },
+    });
+  });
+
+  it('should turn failed conversions into a BadRequestException naming the field', async () => {
+    const pipe = await createPipe(MapperPipe(PageMapper, 'toPageRequest'));
+    const query: ArgumentMetadata = { type: 'query', metatype: PageRequest };
+
+    expect(await pipe.transform({ page: '2', size: '50' }, query)).toEqual({ page: 2, size: 50 });
+    await expect(pipe.transform({ page: 'two', size: '50' }, query)).rejects.toMatchObject({
+      response: {
+        statusCode: 400,
+        message: 'Cannot convert "two" to Number for "page".',
+        fields: ['page'],
+      },
+    });
+    await expect(pipe.transform({ page: '2', size: '-1' }, query)).rejects.toMatchObject({
+      response: {
+        statusCode: 400,
+        message: 'Converter of "size" failed: size must be a positive integer',
+        fields: ['size'],
+      },
+    });
+  });
+
+  it('should not turn other errors into a BadRequestException', async () => {
+    const failure = new Error('Database unavailable');
+    const pipe = await createPipe(
+      MapperPipe(UserMapper, 'toEntity', {
+        transform: () => {
+          throw failure;
+        },
+      })
+    );
+
+    await expect(pipe.transform({}, metadata)).rejects.toBe(failure);
+  });
+
+  it('should reject unregistered mappers with constructor dependencies', async () => {
+    const pipe = await createPipe(MapperPipe(SigningUserMapper, 'toEntity'));
+
+    await expect(pipe.transform({ name: 'Jane' }, metadata)).rejects.toThrow(
+      'SigningUserMapper is not registered in the Nest container. Register it with MapperModule.forRoot() or MapperModule.forFeature().'
+    );
+  });
+
+  it('should use request-scoped mappers of the current request', async () => {
+    const Pipe = MapperPipe(RequestUserMapper, 'toEntity');
+    module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([RequestUserMapper])],
+      providers: [Pipe],
+    }).compile();
+
+    const contextId = ContextIdFactory.create();
+    const first = await (await module.resolve(Pipe, contextId)).transform({ name: 'a' }, metadata);
+    const second = await (await module.resolve(Pipe, contextId)).transform({ name: 'a' }, metadata);
+    const other = await (
+      await module.resolve(Pipe, ContextIdFactory.create())
+    ).transform({ name: 'a' }, metadata);
+
+    expect(first.name).toBe(second.name);
+    expect(other.name).not.toBe(first.name);
+  });
+});
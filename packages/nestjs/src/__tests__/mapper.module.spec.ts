@@ -1,8 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { Injectable } from '@nestjs/common';
-import { MapperModule } from '../mapper.module';
+import { Inject, Injectable, Logger, Module } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import { MAPPER_OPTIONS, MapperModule, MapperModuleOptions } from '../mapper.module';
 import { Mapper } from '../decorators/mapper.decorator';
-import { transform } from '@ilhamtahir/ts-mapper';
+import {
+  Mapping,
+  MappingError,
+  configureMapper,
+  getMapperConfig,
+  resetMapperConfig,
+  transform,
+} from '@ilhamtahir/ts-mapper';
 
 // Test entities and DTOs
 class TestEntity {
@@ -100,3 +108,234 @@ describe('MapperModule', () => {
     await featureModule.close();
   });
 });
+
+class ProfileEntity {
+  bio = '';
+}
+
+class ProfileDto {
+  bio = '';
+}
+
+class AuthorEntity {
+  id = 0;
+  profile = new ProfileEntity();
+}
+
+class AuthorDto {
+  id = 0;
+  profile = new ProfileDto();
+}
+
+@Mapper()
+class ProfileMapper {
+  @Mapping({ source: 'bio', target: 'bio' })
+  toDto(profile: ProfileEntity): ProfileDto {
+    return transform(this, 'toDto', profile, ProfileDto);
+  }
+}
+
+@Mapper({ uses: [ProfileMapper] })
+class AuthorMapper {
+  toDto(entity: AuthorEntity): AuthorDto {
+    return transform(this, 'toDto', entity, AuthorDto);
+  }
+}
+
+describe('MapperModule used mappers', () => {
+  it('should resolve used mappers from the DI container', async () => {
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([AuthorMapper, ProfileMapper])],
+    }).compile();
+
+    const entity = new AuthorEntity();
+    entity.profile.bio = 'Writer';
+    const dto = module.get(AuthorMapper).toDto(entity);
+
+    expect(dto.profile).toBeInstanceOf(ProfileDto);
+    expect(dto.profile.bio).toBe('Writer');
+
+    await module.close();
+  });
+
+  it('should prefer the container instance over a shared one', async () => {
+    const profileMapper = { toDto: jest.fn(() => Object.assign(new ProfileDto(), { bio: 'DI' })) };
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([AuthorMapper])],
+      providers: [{ provide: ProfileMapper, useValue: profileMapper }],
+    }).compile();
+
+    const dto = module.get(AuthorMapper).toDto(new AuthorEntity());
+
+    expect(profileMapper.toDto).toHaveBeenCalledTimes(1);
+    expect(dto.profile.bio).toBe('DI');
+
+    await module.close();
+  });
+
+  it('should look singleton used mappers up once', async () => {
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([AuthorMapper, ProfileMapper])],
+    }).compile();
+    // ModuleRef.get() of every module looks providers up with find()
+    const find = jest.spyOn(
+      ModuleRef.prototype as unknown as { find(token: unknown): unknown },
+      'find'
+    );
+
+    const mapper = module.get(AuthorMapper);
+    mapper.toDto(new AuthorEntity());
+    mapper.toDto(new AuthorEntity());
+
+    expect(find.mock.calls.filter(([token]) => token === ProfileMapper)).toHaveLength(1);
+
+    find.mockRestore();
+    await module.close();
+  });
+
+  it('should name used mappers that are not registered in the container', async () => {
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([AuthorMapper])],
+    }).compile();
+
+    expect(() => module.get(AuthorMapper).toDto(new AuthorEntity())).toThrow(
+      'AuthorMapper uses ProfileMapper, which is not registered in the Nest container. Register it with MapperModule.forRoot() or MapperModule.forFeature().'
+    );
+
+    await module.close();
+  });
+});
+
+@Mapper({ unmappedTargetPolicy: 'warn' })
+class StrictTestMapper {
+  toDto(entity: { id: number }): TestDto {
+    return transform(this, 'toDto', entity, TestDto);
+  }
+}
+
+describe('MapperModule logging', () => {
+  afterEach(() => {
+    resetMapperConfig();
+    jest.restoreAllMocks();
+  });
+
+  it('should route mapping warnings through the Nest Logger', async () => {
+    const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forFeature([StrictTestMapper])],
+    }).compile();
+    await module.init();
+
+    module.get(StrictTestMapper).toDto({ id: 1 });
+
+    expect(warn).toHaveBeenCalledWith('Unmapped target properties in StrictTestMapper.toDto: name');
+
+    await module.close();
+  });
+});
+
+@Mapper()
+class LooseTestMapper {
+  @Mapping({ source: 'code', target: 'name', transform: 'upper' })
+  toDto(entity: { id: number; code: string }): TestDto {
+    return transform(this, 'toDto', entity, TestDto);
+  }
+}
+
+@Injectable()
+class ConfigService {
+  get(key: string): string | undefined {
+    return { MAPPER_UNMAPPED_TARGET_POLICY: 'error' }[key];
+  }
+}
+
+@Module({ providers: [ConfigService], exports: [ConfigService] })
+class ConfigModule {}
+
+describe('MapperModule options', () => {
+  const converters = { upper: (value: string) => value.toUpperCase() };
+
+  afterEach(() => {
+    resetMapperConfig();
+  });
+
+  it('should apply the forRoot() options to transform()', async () => {
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forRoot({ converters, unmappedSourcePolicy: 'error' })],
+    }).compile();
+    const mapper = module.get(LooseTestMapper);
+
+    expect(mapper.toDto({ id: 1, code: 'abc' }).name).toBe('ABC');
+    expect(() => mapper.toDto({ id: 1, code: 'abc', extra: true } as any)).toThrow(
+      new MappingError('Unmapped source properties in LooseTestMapper.toDto: extra', ['extra'])
+    );
+
+    await module.close();
+  });
+
+  it('should create the options with the forRootAsync() factory', async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        MapperModule.forRootAsync({
+          imports: [ConfigModule],
+          useFactory: (config: ConfigService) => ({
+            converters,
+            unmappedTargetPolicy: config.get('MAPPER_UNMAPPED_TARGET_POLICY') as 'error',
+          }),
+          inject: [ConfigService],
+        }),
+      ],
+    }).compile();
+
+    expect(module.get(MAPPER_OPTIONS)).toEqual({ converters, unmappedTargetPolicy: 'error' });
+    expect(() => module.get(TestMapper).toDto(new TestEntity({ id: 1 }))).not.toThrow();
+    expect(() => module.get(LooseTestMapper).toDto({ code: 'abc' } as any)).toThrow(
+      'Unmapped target properties in LooseTestMapper.toDto: id'
+    );
+
+    await module.close();
+  });
+
+  it('should apply the options once and restore the previous configuration on close', async () => {
+    configureMapper({ concurrency: 3 });
+
+    @Module({ imports: [MapperModule.forFeature([TestMapper])] })
+    class FeatureModule {}
+
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forRoot({ converters, unmappedTargetPolicy: 'error' }), FeatureModule],
+    }).compile();
+    await module.init();
+
+    expect(getMapperConfig()).toMatchObject({ concurrency: 3, unmappedTargetPolicy: 'error' });
+    expect(getMapperConfig().logger).toBeInstanceOf(Logger);
+
+    await module.close();
+
+    expect(getMapperConfig()).toEqual({ concurrency: 3 });
+    expect(getMapperConfig().logger).toBeUndefined();
+  });
+
+  it('should expose the options token and mappers to every module', async () => {
+    @Injectable()
+    class ReportService {
+      constructor(
+        readonly mapper: LooseTestMapper,
+        @Inject(MAPPER_OPTIONS) readonly options: MapperModuleOptions
+      ) {}
+    }
+
+    @Module({ providers: [ReportService] })
+    class ReportModule {}
+
+    const module = await Test.createTestingModule({
+      imports: [MapperModule.forRoot({ converters }), ReportModule],
+    }).compile();
+    const service = module.get(ReportService);
+
+    expect(service.mapper).toBe(module.get(LooseTestMapper));
+    expect(service.options.converters).toBe(converters);
+
+    await module.close();
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * Map a value with mapper[method]: arrays element by element, null and undefined as-is.
+ * Async mapper methods are awaited.
+ */
+export function applyMapper(mapper: object, method: string, value: unknown): Promise<unknown> {
+  if (value === null || value === undefined) {
+    return Promise.resolve(value);
+  }
+  const map = (element: unknown): unknown =>
+    (mapper as Record<string, (source: unknown) => unknown>)[method](element);
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(map));
+  }
+  return Promise.resolve(map(value));
+}
@@ -0,0 +1,19 @@
+import { Body, PipeTransform } from '@nestjs/common';
+import type { MapperClass } from '@ilhamtahir/ts-mapper';
+import { MapperPipe } from '../pipes/mapper.pipe';
+
+/**
+ * Request body mapped with mapper[method] before the handler runs,
+ * e.g. @MapBody(UserMapper, 'toEntity') entity: UserEntity
+ *
+ * @param mapper Mapper class
+ * @param method Mapper method converting the body into the domain object
+ * @param pipes Pipes applied to the body before mapping, e.g. a ValidationPipe
+ */
+export function MapBody<T extends object>(
+  mapper: MapperClass<T>,
+  method: keyof T & string,
+  ...pipes: PipeTransform[]
+): ParameterDecorator {
+  return Body(MapperPipe(mapper, method, ...pipes));
+}
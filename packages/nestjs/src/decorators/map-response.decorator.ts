@@ -0,0 +1,27 @@
+import { SetMetadata, UseInterceptors, applyDecorators } from '@nestjs/common';
+import type { MapperClass } from '@ilhamtahir/ts-mapper';
+import {
+  MAP_RESPONSE_METADATA,
+  MapResponseInterceptor,
+  MapResponseOptions,
+} from '../interceptors/map-response.interceptor';
+
+/**
+ * Map the results of a route handler (or of every handler of a controller) with
+ * mapper[method], e.g. @MapResponse(UserMapper, 'toDto').
+ * Works for HTTP, RPC, WebSocket and GraphQL handlers.
+ *
+ * @param mapper Mapper class, resolved from the DI container
+ * @param method Mapper method mapping one result object
+ * @param options Response mapping options
+ */
+export function MapResponse<T extends object>(
+  mapper: MapperClass<T>,
+  method: keyof T & string,
+  options: MapResponseOptions = {}
+) {
+  return applyDecorators(
+    SetMetadata(MAP_RESPONSE_METADATA, { ...options, mapper, method }),
+    UseInterceptors(MapResponseInterceptor)
+  );
+}
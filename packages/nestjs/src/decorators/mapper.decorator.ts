@@ -1,9 +1,28 @@
 import { Injectable } from '@nestjs/common';
-import { metadataStorage } from '@ilhamtahir/ts-mapper';
+import type { ScopeOptions } from '@nestjs/common';
+import { metadataStorage, validateValueMappings } from '@ilhamtahir/ts-mapper';
+import type { MapperClass, MapperOptions } from '@ilhamtahir/ts-mapper';
 
-export function Mapper() {
-  return (target: any) => {
-    Injectable()(target); // 标记为可注入
-    metadataStorage.registerMapper(target);
+/**
+ * Mapper options, plus the injection scope of the mapper (e.g. Scope.REQUEST)
+ */
+export interface NestMapperOptions extends MapperOptions, ScopeOptions {}
+
+const mapperScopes = new WeakMap<object, ScopeOptions>();
+
+export function Mapper(options: NestMapperOptions = {}) {
+  const { scope, durable, ...mapperOptions } = options;
+  return (target: MapperClass) => {
+    Injectable({ scope, durable })(target); // 标记为可注入
+    mapperScopes.set(target, { scope, durable });
+    metadataStorage.registerMapper(target, mapperOptions);
+    validateValueMappings(target);
   };
 }
+
+/**
+ * Injection scope declared by @Mapper({ scope, durable }); empty for singleton mappers
+ */
+export function getMapperScope(mapperClass: object): ScopeOptions {
+  return mapperScopes.get(mapperClass) ?? {};
+}
@@ -0,0 +1,24 @@
+import { Scope } from '@nestjs/common';
+import { resolveMapper } from '@ilhamtahir/ts-mapper';
+import type { MapperClass } from '@ilhamtahir/ts-mapper';
+import { getMapperScope } from './decorators/mapper.decorator';
+
+/**
+ * Shared instance of a mapper that is not registered in the Nest container. Only mappers
+ * without constructor dependencies and without a request or transient scope can be created
+ * outside of the container; the others fail naming the mapper.
+ */
+export function getFallbackMapper(owner: object, mapperClass: MapperClass): object {
+  const { scope } = getMapperScope(mapperClass);
+  const parameters: unknown[] | undefined = Reflect.getMetadata('design:paramtypes', mapperClass);
+  if (
+    (parameters?.length ?? mapperClass.length) > 0 ||
+    scope === Scope.REQUEST ||
+    scope === Scope.TRANSIENT
+  ) {
+    throw new Error(
+      `${mapperClass.name} is not registered in the Nest container. Register it with MapperModule.forRoot() or MapperModule.forFeature().`
+    );
+  }
+  return resolveMapper(owner, mapperClass);
+}
@@ -1,7 +1,71 @@
 // Re-export core functionality from @ilhamtahir/ts-mapper
-export { Mapping, transform, metadataStorage, createMapperProxy } from '@ilhamtahir/ts-mapper';
-export type { MappingOptions } from '@ilhamtahir/ts-mapper';
+export {
+  Mapping,
+  IterableMapping,
+  BeanMapping,
+  MappingTarget,
+  Source,
+  InheritConfiguration,
+  InheritInverseConfiguration,
+  ValueMapping,
+  EnumMapping,
+  Condition,
+  BeforeMapping,
+  AfterMapping,
+  AutoMap,
+  MappingConstants,
+  NamingStrategies,
+  mapValue,
+  transform,
+  transformInto,
+  transformSources,
+  transformIterable,
+  transformAsync,
+  transformIntoAsync,
+  transformSourcesAsync,
+  transformIterableAsync,
+  metadataStorage,
+  createMapperProxy,
+  configureMapper,
+  resetMapperConfig,
+  getMapperConfig,
+  registerConversion,
+  resetConversions,
+  NOT_CONVERTIBLE,
+  MappingError,
+} from '@ilhamtahir/ts-mapper';
+export type {
+  MappingOptions,
+  IterableMappingOptions,
+  BeanMappingOptions,
+  ValueMappingOptions,
+  EnumMappingOptions,
+  ValueMap,
+  MappingTransformFn,
+  MappingExpressionFn,
+  MappingConditionFn,
+  MappingContext,
+  MappingHookOptions,
+  MapperOptions,
+  MapperClass,
+  ReportingPolicy,
+  NullValuePropertyStrategy,
+  NamingStrategy,
+  CopyStrategy,
+  GlobalMapperConfig,
+  MapperLogger,
+  ConversionOptions,
+  ConversionFn,
+  ValueType,
+} from '@ilhamtahir/ts-mapper';
 
 // Export NestJS-specific functionality
 export { Mapper } from './decorators/mapper.decorator';
-export { MapperModule } from './mapper.module';
+export type { NestMapperOptions } from './decorators/mapper.decorator';
+export { MapperModule, MAPPER_OPTIONS } from './mapper.module';
+export type { MapperModuleOptions, MapperModuleAsyncOptions } from './mapper.module';
+export { MapResponse } from './decorators/map-response.decorator';
+export { MapResponseInterceptor } from './interceptors/map-response.interceptor';
+export { MapBody } from './decorators/map-body.decorator';
+export { MapperPipe } from './pipes/mapper.pipe';
+export type { MapResponseOptions } from './interceptors/map-response.interceptor';
@@ -0,0 +1,132 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor, Scope } from '@nestjs/common';
+import { ContextIdFactory, ModuleRef, Reflector } from '@nestjs/core';
+import { Observable, concatMap } from 'rxjs';
+import type { MapperClass } from '@ilhamtahir/ts-mapper';
+import { applyMapper } from '../apply-mapper';
+import { getMapperScope } from '../decorators/mapper.decorator';
+import { getFallbackMapper } from '../fallback-mapper';
+
+export const MAP_RESPONSE_METADATA = 'ts-mapper:map-response';
+
+export interface MapResponseOptions {
+  /**
+   * Dot-separated path of the value to map within the handler result, e.g. 'items' for a
+   * paginated envelope { items, total }. The rest of the result is returned as-is.
+   */
+  field?: string;
+}
+
+export interface MapResponseMetadata extends MapResponseOptions {
+  mapper: MapperClass;
+  method: string;
+}
+
+/**
+ * Maps handler results with the mapper method declared by @MapResponse().
+ * Results that are arrays are mapped element by element; null and undefined are returned as-is.
+ */
+@Injectable()
+export class MapResponseInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly moduleRef: ModuleRef
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const metadata = this.reflector.getAllAndOverride<MapResponseMetadata | undefined>(
+      MAP_RESPONSE_METADATA,
+      [context.getHandler(), context.getClass()]
+    );
+    if (!metadata) {
+      return next.handle();
+    }
+
+    // Promises and observables returned by the handler are already unwrapped by Nest;
+    // concatMap awaits async mapper methods and keeps the order of streamed results
+    return next
+      .handle()
+      .pipe(
+        concatMap(async (result: unknown) =>
+          mapResult(await this.getMapper(context, metadata.mapper), metadata, result)
+        )
+      );
+  }
+
+  /**
+   * Mapper instance from the DI container. Request-scoped and transient mappers are resolved
+   * in the DI sub-tree of the request, which Nest attaches to the request when the route has
+   * request-scoped providers, else in a sub-tree of their own; their resolution errors are
+   * thrown as they are. Singleton mappers that are not registered fall back to a shared instance
+   * when they have no constructor dependencies.
+   */
+  private async getMapper(context: ExecutionContext, mapperClass: MapperClass): Promise<object> {
+    const { scope } = getMapperScope(mapperClass);
+    if (scope === Scope.REQUEST || scope === Scope.TRANSIENT) {
+      const request = getRequest(context);
+      const contextId = request
+        ? ContextIdFactory.getByRequest(request)
+        : ContextIdFactory.create();
+      return this.moduleRef.resolve(mapperClass, contextId, { strict: false });
+    }
+    try {
+      return this.moduleRef.get(mapperClass, { strict: false });
+    } catch {
+      return getFallbackMapper(this, mapperClass);
+    }
+  }
+}
+
+/**
+ * Request object of the current execution context, per context type
+ */
+function getRequest(context: ExecutionContext): Record<string, unknown> | undefined {
+  switch (context.getType<string>()) {
+    case 'rpc':
+      return context.switchToRpc().getContext();
+    case 'ws':
+      return context.switchToWs().getClient();
+    case 'graphql': {
+      // GraphQL context object, with the HTTP request under 'req'
+      const graphqlContext = context.getArgByIndex<{ req?: Record<string, unknown> }>(2);
+      return graphqlContext?.req ?? graphqlContext;
+    }
+    default:
+      return context.switchToHttp().getRequest();
+  }
+}
+
+async function mapResult(
+  mapper: object,
+  metadata: MapResponseMetadata,
+  result: unknown
+): Promise<unknown> {
+  if (!metadata.field) {
+    return applyMapper(mapper, metadata.method, result);
+  }
+
+  return mapField(result, metadata.field.split('.'), value =>
+    applyMapper(mapper, metadata.method, value)
+  );
+}
+
+/**
+ * Copy of the envelope with the value at the given path replaced by its mapped value
+ */
+async function mapField(
+  envelope: unknown,
+  keys: string[],
+  mapLeaf: (value: unknown) => Promise<unknown>
+): Promise<unknown> {
+  if (envelope === null || envelope === undefined) {
+    return envelope;
+  }
+
+  const [key, ...rest] = keys;
+  const fields = envelope as Record<string, unknown>;
+  const value = rest.length
+    ? await mapField(fields[key], rest, mapLeaf)
+    : await mapLeaf(fields[key]);
+  return Array.isArray(envelope)
+    ? Object.assign([...envelope], { [key]: value })
+    : { ...fields, [key]: value };
+}
@@ -1,33 +1,192 @@
-import { DynamicModule, Module, Provider } from '@nestjs/common';
-import { metadataStorage, createMapperProxy } from '@ilhamtahir/ts-mapper';
+import {
+  DynamicModule,
+  Inject,
+  Injectable,
+  Logger,
+  Module,
+  OnModuleDestroy,
+  OnModuleInit,
+  Provider,
+  Scope,
+} from '@nestjs/common';
+import type { InjectionToken, ModuleMetadata, Type } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+import {
+  metadataStorage,
+  wrapMapperInstance,
+  configureMapper,
+  getMapperConfig,
+  resetMapperConfig,
+} from '@ilhamtahir/ts-mapper';
+import type { GlobalMapperConfig, MapperClass } from '@ilhamtahir/ts-mapper';
+import { getMapperScope } from './decorators/mapper.decorator';
+
+/**
+ * Injection token of the MapperModule.forRoot() / forRootAsync() options
+ */
+export const MAPPER_OPTIONS = 'MAPPER_OPTIONS';
+
+/**
+ * Global mapper configuration (policies, converters, debug logging, ...) applied by forRoot()
+ */
+export type MapperModuleOptions = GlobalMapperConfig;
+
+export interface MapperModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
+  useFactory(...args: unknown[]): MapperModuleOptions | Promise<MapperModuleOptions>;
+  inject?: InjectionToken[];
+}
 
 @Module({})
-export class MapperModule {
-  static forRoot(): DynamicModule {
-    const mapperClasses = metadataStorage.getAllMappers() as Array<new (...args: any[]) => any>;
+export class MapperModule implements OnModuleInit, OnModuleDestroy {
+  private logger?: Logger;
 
-    const providers: Provider[] = mapperClasses.map(MapperClass => ({
-      provide: MapperClass,
-      useFactory: () => createMapperProxy(MapperClass),
-    }));
+  /**
+   * Register all @Mapper() classes and apply the global mapper configuration.
+   * The module is global, so the mappers and MAPPER_OPTIONS can be injected anywhere.
+   */
+  static forRoot(options: MapperModuleOptions = {}): DynamicModule {
+    return createRootModule({ provide: MAPPER_OPTIONS, useValue: options });
+  }
 
+  /**
+   * forRoot() with options created by a factory, e.g. from the ConfigService
+   */
+  static forRootAsync(options: MapperModuleAsyncOptions): DynamicModule {
     return {
-      module: MapperModule,
-      providers,
-      exports: providers,
+      ...createRootModule({
+        provide: MAPPER_OPTIONS,
+        useFactory: options.useFactory,
+        inject: options.inject ?? [],
+      }),
+      imports: options.imports ?? [],
     };
   }
 
-  static forFeature(mappers: Array<new (...args: any[]) => any>): DynamicModule {
-    const providers: Provider[] = mappers.map(MapperClass => ({
-      provide: MapperClass,
-      useFactory: () => createMapperProxy(MapperClass),
-    }));
-
+  /**
+   * @param mappers Mapper classes to register
+   * @param imports Modules exporting the constructor dependencies of the mappers
+   */
+  static forFeature(mappers: Type[], imports: ModuleMetadata['imports'] = []): DynamicModule {
     return {
       module: MapperModule,
-      providers,
-      exports: providers,
+      imports,
+      providers: mappers.flatMap(createMapperProviders),
+      exports: mappers,
     };
   }
+
+  /**
+   * Route mapping warnings (e.g. unmapped properties) through the Nest Logger,
+   * unless a logger has been configured explicitly
+   */
+  onModuleInit() {
+    if (!getMapperConfig().logger) {
+      this.logger = new Logger(MapperModule.name);
+      configureMapper({ logger: this.logger });
+    }
+  }
+
+  /**
+   * Stop routing mapping warnings through the Nest Logger of the closed application
+   */
+  onModuleDestroy() {
+    if (this.logger && getMapperConfig().logger === this.logger) {
+      configureMapper({ logger: undefined });
+    }
+    this.logger = undefined;
+  }
+}
+
+/**
+ * Applies the forRoot() / forRootAsync() options to the global mapper configuration once,
+ * before the application maps anything (e.g. in onModuleInit hooks), and restores the
+ * previous configuration when the application shuts down
+ */
+@Injectable()
+class MapperConfigurator implements OnModuleDestroy {
+  private readonly previous = getMapperConfig();
+
+  constructor(@Inject(MAPPER_OPTIONS) options: MapperModuleOptions) {
+    configureMapper(options);
+  }
+
+  onModuleDestroy() {
+    resetMapperConfig();
+    configureMapper(this.previous);
+  }
+}
+
+function createRootModule(optionsProvider: Provider): DynamicModule {
+  const mapperClasses = metadataStorage.getAllMappers() as Type[];
+
+  return {
+    module: MapperModule,
+    global: true,
+    providers: [
+      ...mapperClasses.flatMap(createMapperProviders),
+      optionsProvider,
+      MapperConfigurator,
+    ],
+    exports: [...mapperClasses, MAPPER_OPTIONS],
+  };
+}
+
+/**
+ * Mapper providers: the mapper class is instantiated by the injector, so that its constructor
+ * dependencies are resolved, under an internal token, then wrapped in the auto transform proxy.
+ * Used mappers (@Mapper({ uses })) are resolved from the DI container: singletons lazily and
+ * once, so that mappers may use each other, and request-scoped or transient ones by injection,
+ * so that they belong to the same request and the using mapper takes their scope.
+ */
+function createMapperProviders(MapperClass: Type): Provider[] {
+  const instanceToken = Symbol(`${MapperClass.name}Instance`);
+  // Both providers take the scope of the mapper, e.g. @Mapper({ scope: Scope.REQUEST })
+  const { scope, durable } = getMapperScope(MapperClass);
+  const scopedUses = (metadataStorage.getMapperOptions(MapperClass).uses ?? []).filter(isScoped);
+
+  return [
+    { provide: instanceToken, useClass: MapperClass },
+    {
+      provide: MapperClass,
+      useFactory: (instance: object, moduleRef: ModuleRef, ...scopedMappers: object[]) => {
+        // Singletons are looked up once, not for every nested value
+        const singletons = new Map<MapperClass, object>();
+        return wrapMapperInstance(instance, {
+          resolveMapper: (usedClass: MapperClass) => {
+            const index = scopedUses.indexOf(usedClass);
+            if (index >= 0) return scopedMappers[index];
+
+            let used = singletons.get(usedClass);
+            if (!used) {
+              used = resolveFromContainer(moduleRef, MapperClass, usedClass);
+              singletons.set(usedClass, used);
+            }
+            return used;
+          },
+        });
+      },
+      inject: [instanceToken, ModuleRef, ...scopedUses],
+      scope,
+      durable,
+    },
+  ];
+}
+
+function isScoped(mapperClass: MapperClass): boolean {
+  const { scope } = getMapperScope(mapperClass);
+  return scope === Scope.REQUEST || scope === Scope.TRANSIENT;
+}
+
+function resolveFromContainer(
+  moduleRef: ModuleRef,
+  ownerClass: MapperClass,
+  mapperClass: MapperClass
+): object {
+  try {
+    return moduleRef.get(mapperClass, { strict: false });
+  } catch {
+    throw new Error(
+      `${ownerClass.name} uses ${mapperClass.name}, which is not registered in the Nest container. Register it with MapperModule.forRoot() or MapperModule.forFeature().`
+    );
+  }
 }
@@ -0,0 +1,63 @@
+import {
+  ArgumentMetadata,
+  BadRequestException,
+  Inject,
+  Injectable,
+  Optional,
+  PipeTransform,
+  Type,
+  mixin,
+} from '@nestjs/common';
+import { MappingError } from '@ilhamtahir/ts-mapper';
+import type { MapperClass } from '@ilhamtahir/ts-mapper';
+import { applyMapper } from '../apply-mapper';
+import { getFallbackMapper } from '../fallback-mapper';
+
+/**
+ * Pipe mapping the incoming value (body, query or params) with mapper[method], e.g.
+ * @Body(MapperPipe(UserMapper, 'toEntity')). Arrays are mapped element by element.
+ *
+ * The given pipes, e.g. a ValidationPipe, run first and receive the source type of the
+ * mapper method as metatype. Mapping errors become a BadRequestException naming the fields.
+ *
+ * @param mapper Mapper class, injected from the module of the controller; mappers that are not
+ * registered there fall back to a shared instance unless they have constructor dependencies
+ * @param method Mapper method converting the payload into the domain object
+ * @param pipes Pipes applied to the payload before mapping
+ */
+export function MapperPipe<T extends object>(
+  mapper: MapperClass<T>,
+  method: keyof T & string,
+  ...pipes: PipeTransform[]
+): Type<PipeTransform> {
+  const sourceType = Reflect.getMetadata('design:paramtypes', mapper.prototype, method)?.[0];
+
+  @Injectable()
+  class MixinMapperPipe implements PipeTransform {
+    constructor(@Optional() @Inject(mapper) private readonly mapperInstance?: T) {}
+
+    async transform(value: unknown, metadata: ArgumentMetadata): Promise<unknown> {
+      const sourceMetadata = { ...metadata, metatype: sourceType ?? metadata.metatype };
+      for (const pipe of pipes) {
+        value = await pipe.transform(value, sourceMetadata);
+      }
+
+      // Not registered in the module of the controller: fall back to a shared instance
+      const instance = this.mapperInstance ?? getFallbackMapper(this, mapper);
+      try {
+        return await applyMapper(instance, method, value);
+      } catch (error) {
+        throw error instanceof MappingError ? toBadRequest(error) : error;
+      }
+    }
+  }
+
+  return mixin(MixinMapperPipe);
+}
+
+function toBadRequest(error: MappingError): BadRequestException {
+  return new BadRequestException(
+    { statusCode: 400, message: error.message, error: 'Bad Request', fields: error.fields },
+    { cause: error }
+  );
+}